@@ -1,9 +1,16 @@
 import { DCADashboard } from './components/DCADashboard';
+import { WalletView } from './components/WalletView';
+import { PositionDetail } from './components/PositionDetail';
+import { useRoute } from './hooks/useRoute';
 
 function App() {
+  const route = useRoute();
+
   return (
     <div className="min-h-screen bg-[#121212] text-white">
-      <DCADashboard />
+      {route.name === 'wallet' && <WalletView address={route.address} />}
+      {route.name === 'position' && <PositionDetail key={route.address} address={route.address} />}
+      {route.name === 'dashboard' && <DCADashboard />}
     </div>
   );
 }
@@ -0,0 +1,223 @@
+import { BorshAccountsCoder } from '@coral-xyz/anchor';
+import { DCA_PROGRAM_ID_BY_CLUSTER, IDL } from '@jup-ag/dca-sdk';
+import { Connection, PublicKey, type AccountInfo, type GetProgramAccountsFilter } from '@solana/web3.js';
+import BN from 'bn.js';
+import type { RawAccount } from '../types/dca';
+import { DecodeError, EmptyResultError } from './errors';
+
+export interface DCAAccountType {
+  publicKey: PublicKey;
+  account: {
+    user: PublicKey;
+    inputMint: PublicKey;
+    outputMint: PublicKey;
+    idx: BN;
+    nextCycleAt: BN;
+    inDeposited: BN;
+    inWithdrawn: BN;
+    outWithdrawn: BN;
+    inUsed: BN;
+    inAmountPerCycle: BN;
+    cycleFrequency: BN;
+    bump: number;
+    minOutAmount?: BN;
+    maxOutAmount?: BN;
+    outReceived?: BN;
+    nextCycleAmountLeft?: BN;
+    inAccount?: PublicKey;
+    outAccount?: PublicKey;
+    keeperInBalanceBeforeBorrow?: BN;
+    dcaOutBalanceBeforeSwap?: BN;
+    createdAt?: BN;
+  };
+}
+
+// Byte offsets in the DCA account: 8 byte discriminator, then user, inputMint, outputMint
+export const INPUT_MINT_OFFSET = 8 + 32;
+export const OUTPUT_MINT_OFFSET = 8 + 32 + 32;
+// The counters a fill, withdrawal or top up changes: nextCycleAt through nextCycleAmountLeft,
+// nine 8 byte fields after idx. Everything else is fixed when the order is created.
+const COUNTERS_OFFSET = OUTPUT_MINT_OFFSET + 32 + 8;
+const COUNTERS_LENGTH = 9 * 8;
+// getMultipleAccountsInfo accepts at most 100 keys per call
+const BATCH_SIZE = 100;
+
+const countersOf = (data: Buffer): string =>
+  data.subarray(COUNTERS_OFFSET, COUNTERS_OFFSET + COUNTERS_LENGTH).toString('base64');
+
+// Input and output mint of a raw DCA account, read straight from its bytes
+export const mintsOf = (account: RawAccount): string[] => {
+  const data = Buffer.from(account.data, 'base64');
+  return [INPUT_MINT_OFFSET, OUTPUT_MINT_OFFSET].map(offset =>
+    new PublicKey(data.subarray(offset, offset + 32)).toString()
+  );
+};
+
+interface CachedAccount {
+  data: string;
+  counters: string;
+  decoded: DCAAccountType;
+}
+
+export interface FetchStats {
+  total: number;
+  changed: number;
+  removed: number;
+  // Accounts whose full data was downloaded, the rest only sent their counters
+  downloaded: number;
+  // Accounts skipped because they didn't decode
+  failed: string[];
+}
+
+// Fetches only the DCA accounts that touch the given mints and keeps the decoded
+// result around. Once the cache is filled, a refresh lists just the counters of each
+// account and downloads full data only for new accounts and those whose counters moved.
+export class DCAAccountFetcher {
+  private coder = new BorshAccountsCoder(IDL);
+  private cache = new Map<string, CachedAccount>();
+  lastStats: FetchStats = { total: 0, changed: 0, removed: 0, downloaded: 0, failed: [] };
+
+  constructor(
+    private connection: Connection,
+    private programId: PublicKey = DCA_PROGRAM_ID_BY_CLUSTER['mainnet-beta']
+  ) {}
+
+  setConnection(connection: Connection) {
+    this.connection = connection;
+  }
+
+  filtersFor(offset: number, mint: string): GetProgramAccountsFilter[] {
+    const discriminator = this.coder.memcmp('dca');
+    return [
+      { memcmp: { offset: discriminator.offset, bytes: discriminator.bytes } },
+      { memcmp: { offset, bytes: mint } }
+    ];
+  }
+
+  private decode(publicKey: PublicKey, data: Buffer): DCAAccountType {
+    try {
+      return {
+        publicKey,
+        account: this.coder.decode('dca', data)
+      };
+    } catch (error) {
+      throw new DecodeError(publicKey.toString(), error);
+    }
+  }
+
+  async fetchByMints(mints: string[]): Promise<DCAAccountType[]> {
+    const queries = [...new Set(mints)].flatMap(mint => [
+      this.filtersFor(INPUT_MINT_OFFSET, mint),
+      this.filtersFor(OUTPUT_MINT_OFFSET, mint)
+    ]);
+    // Nothing to compare against yet, a full listing is cheaper than listing then fetching
+    const full = this.cache.size === 0;
+
+    const results = await Promise.all(
+      queries.map(filters => this.connection.getProgramAccounts(this.programId, {
+        filters,
+        dataSlice: full ? undefined : { offset: COUNTERS_OFFSET, length: COUNTERS_LENGTH }
+      }))
+    );
+    if (results.some(result => !Array.isArray(result))) {
+      throw new EmptyResultError('getProgramAccounts returned no account list');
+    }
+
+    // Without full data, only accounts that are new or whose counters moved get downloaded
+    const listed = new Map(results.flat().map(({ pubkey, account }) => [pubkey.toString(), { pubkey, account }]));
+    const stale = full
+      ? []
+      : [...listed].filter(([key, { account }]) => this.cache.get(key)?.counters !== account.data.toString('base64'))
+        .map(([key]) => key);
+    const downloaded = await this.download(stale);
+
+    const seen = new Map<string, CachedAccount>();
+    const failed: string[] = [];
+    let changed = 0;
+    listed.forEach(({ pubkey, account }, key) => {
+      const cached = this.cache.get(key);
+      const bytes = full ? account.data : downloaded.get(key);
+      if (bytes === undefined && cached) {
+        seen.set(key, cached);
+        return;
+      }
+      // Closed between the listing and the download
+      if (!bytes) {
+        return;
+      }
+      const data = bytes.toString('base64');
+      if (cached && cached.data === data) {
+        seen.set(key, cached);
+        return;
+      }
+      // One malformed account shouldn't take the whole refresh down
+      try {
+        seen.set(key, { data, counters: countersOf(bytes), decoded: this.decode(pubkey, bytes) });
+        changed += 1;
+      } catch (error) {
+        console.error(error);
+        failed.push(key);
+      }
+    });
+
+    const removed = [...this.cache.keys()].filter(key => !seen.has(key)).length;
+    this.cache = seen;
+    this.lastStats = { total: seen.size, changed, removed, downloaded: full ? listed.size : stale.length, failed };
+
+    return [...seen.values()].map(entry => entry.decoded);
+  }
+
+  // Full data for the given addresses, null for accounts that are gone
+  private async download(keys: string[]): Promise<Map<string, Buffer | null>> {
+    const data = new Map<string, Buffer | null>();
+    for (let i = 0; i < keys.length; i += BATCH_SIZE) {
+      const batch = keys.slice(i, i + BATCH_SIZE);
+      const infos = await this.connection.getMultipleAccountsInfo(batch.map(key => new PublicKey(key)));
+      infos.forEach((info, j) => {
+        data.set(batch[j], info && info.owner.equals(this.programId) ? info.data : null);
+      });
+    }
+    return data;
+  }
+
+  // A single account by address, null when it doesn't exist (e.g. closed)
+  async fetchOne(publicKey: PublicKey): Promise<DCAAccountType | null> {
+    const info = await this.connection.getAccountInfo(publicKey);
+    if (!info || info.data.length === 0) {
+      return null;
+    }
+    if (!info.owner.equals(this.programId)) {
+      throw new DecodeError(publicKey.toString(), new Error('Not owned by the DCA program'));
+    }
+    return this.decode(publicKey, info.data);
+  }
+
+  // The undecoded account data behind the cache, as getProgramAccounts returned it
+  getRaw(): RawAccount[] {
+    return [...this.cache.entries()].map(([pubkey, entry]) => ({ pubkey, data: entry.data }));
+  }
+
+  getCached(): DCAAccountType[] {
+    return [...this.cache.values()].map(entry => entry.decoded);
+  }
+
+  // Patch a single account pushed over a subscription into the cache
+  applyChange(publicKey: PublicKey, info: AccountInfo<Buffer>): 'updated' | 'removed' | 'unchanged' {
+    const key = publicKey.toString();
+    if (info.lamports === 0 || info.data.length === 0) {
+      return this.cache.delete(key) ? 'removed' : 'unchanged';
+    }
+
+    const data = info.data.toString('base64');
+    if (this.cache.get(key)?.data === data) {
+      return 'unchanged';
+    }
+    try {
+      this.cache.set(key, { data, counters: countersOf(info.data), decoded: this.decode(publicKey, info.data) });
+    } catch (error) {
+      console.error(error);
+      return 'unchanged';
+    }
+    return 'updated';
+  }
+}
@@ -0,0 +1,109 @@
+import type {
+  AccountTransaction,
+  ChartDataPoint,
+  ChartRange,
+  DCAData,
+  DCAFixture,
+  FeedStatus,
+  OrderRequest,
+  OrderResult,
+  Position,
+  PositionActionRequest,
+  PositionBalances,
+  PositionDelta,
+  PositionFills,
+  TrackedToken,
+  TxStatus,
+  WalletData
+} from '../types/dca';
+import type { TransactionSigner } from './signer';
+import { jupiterDCA } from './jupiter';
+import { mockDCA } from './mockSource';
+import { hasConfiguredRpc } from '../config/cluster';
+import { env } from '../config/env';
+
+// Anything the dashboard can read DCA data from
+export interface DCADataSource {
+  readonly name: string;
+  readonly label: string;
+  // Set when the source has the write methods but can't send transactions, e.g. a replay
+  readonly readOnly?: boolean;
+  getDCAAccounts(tokens?: TrackedToken[], range?: ChartRange): Promise<DCAData>;
+  getChartHistory(range: ChartRange, tokens?: TrackedToken[]): Promise<Record<string, ChartDataPoint[]>>;
+  getWalletPositions(address: string): Promise<WalletData>;
+  getPositionFills(position: Position): Promise<PositionFills>;
+  // One position by its DCA account address, for the detail page
+  getPosition(address: string): Promise<Position>;
+  // Optional list of the latest transactions on a position's account
+  getPositionTransactions?(position: Position, limit?: number): Promise<AccountTransaction[]>;
+  // Optional order creation; read-only sources leave it out
+  createOrder?(
+    order: OrderRequest,
+    signer: TransactionSigner,
+    onStatus?: (status: TxStatus, signature?: string) => void
+  ): Promise<OrderResult>;
+  // Optional owner actions on an existing position, resolving to the signature
+  getPositionBalances?(position: Position): Promise<PositionBalances>;
+  managePosition?(
+    request: PositionActionRequest,
+    signer: TransactionSigner,
+    onStatus?: (status: TxStatus, signature?: string) => void
+  ): Promise<string>;
+  // Optional snapshot of the last refresh that ReplayDCAAPI can play back
+  exportFixture?(): DCAFixture;
+  // Optional push updates; sources without it are polled
+  subscribe?(
+    tokens: TrackedToken[],
+    onDelta: (delta: PositionDelta) => void,
+    onStatus: (status: FeedStatus) => void
+  ): () => void;
+}
+
+const STORAGE_KEY = 'open-dcas:data-source';
+
+class DataSourceRegistry {
+  private sources: Record<string, DCADataSource>;
+  private selected: string;
+  private listeners = new Set<(source: DCADataSource) => void>();
+
+  constructor(sources: DCADataSource[]) {
+    this.sources = Object.fromEntries(sources.map(source => [source.name, source]));
+
+    // Without an RPC endpoint there is nothing live to read, so start offline
+    const fallback = hasConfiguredRpc() ? 'jupiter' : 'mock';
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    const initial = stored || env.VITE_DATA_SOURCE || fallback;
+    this.selected = initial in this.sources ? initial : fallback;
+  }
+
+  get current(): DCADataSource {
+    return this.sources[this.selected];
+  }
+
+  list(): DCADataSource[] {
+    return Object.values(this.sources);
+  }
+
+  select(name: string) {
+    if (!(name in this.sources)) {
+      throw new Error(`Unknown data source: ${name}`);
+    }
+    this.selected = name;
+    localStorage.setItem(STORAGE_KEY, name);
+    this.listeners.forEach(listener => listener(this.current));
+  }
+
+  // Add or replace a source at runtime, e.g. a loaded fixture
+  register(source: DCADataSource) {
+    this.sources = { ...this.sources, [source.name]: source };
+  }
+
+  subscribe(listener: (source: DCADataSource) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const dataSources = new DataSourceRegistry([jupiterDCA, mockDCA]);
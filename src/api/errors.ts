@@ -0,0 +1,103 @@
+import { SolanaJSONRPCError } from '@solana/web3.js';
+import type { DCAErrorKind, DataWarning } from '../types/dca';
+
+// Base class for everything the API layer throws, so callers can switch on kind
+export class DCAError extends Error {
+  constructor(
+    readonly kind: DCAErrorKind,
+    message: string,
+    readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+
+  // Worth trying again later; the rest won't fix themselves
+  get retryable(): boolean {
+    return this.kind === 'rpc-unavailable' || this.kind === 'rate-limited';
+  }
+
+  toWarning(): DataWarning {
+    return { kind: this.kind, message: this.message };
+  }
+}
+
+export class RpcUnavailableError extends DCAError {
+  constructor(message = 'RPC endpoint is unavailable', cause?: unknown) {
+    super('rpc-unavailable', message, cause);
+  }
+}
+
+export class RateLimitedError extends DCAError {
+  constructor(message = 'RPC endpoint is rate limiting requests', cause?: unknown) {
+    super('rate-limited', message, cause);
+  }
+}
+
+export class PriceUnavailableError extends DCAError {
+  constructor(readonly symbols: string[], cause?: unknown) {
+    super('price-unavailable', `No USD price for ${symbols.join(', ')}`, cause);
+  }
+}
+
+export class DecodeError extends DCAError {
+  constructor(readonly account: string, cause?: unknown) {
+    super('decode-failed', `Could not decode DCA account ${account}`, cause);
+  }
+}
+
+export class EmptyResultError extends DCAError {
+  constructor(message = 'The data source returned no data', cause?: unknown) {
+    super('empty-result', message, cause);
+  }
+}
+
+// Bad input or a bug on our side, e.g. an invalid address; retrying won't help
+export class BadRequestError extends DCAError {
+  constructor(message: string, cause?: unknown) {
+    super('bad-request', message, cause);
+  }
+}
+
+export const isRateLimitError = (error: unknown): boolean =>
+  /429|too many requests|rate limit/i.test(error instanceof Error ? error.message : String(error));
+
+// Failed fetches, timeouts, dropped sockets and 5xx responses from the endpoint
+export const isNetworkError = (error: unknown): boolean =>
+  error instanceof SolanaJSONRPCError ||
+  /fetch failed|failed to fetch|network|ECONN|ENOTFOUND|EAI_AGAIN|ETIMEDOUT|socket|timed? ?out|\b50[0-4]\b|bad gateway|service unavailable/i
+    .test(error instanceof Error ? error.message : String(error));
+
+// Wrap anything thrown by web3.js or fetch in the matching typed error. Only
+// network and HTTP failures count as the RPC being down, anything else is ours.
+export const toDCAError = (error: unknown): DCAError => {
+  if (error instanceof DCAError) {
+    return error;
+  }
+  if (isRateLimitError(error)) {
+    return new RateLimitedError(undefined, error);
+  }
+  const detail = error instanceof Error ? error.message : String(error);
+  if (isNetworkError(error)) {
+    return new RpcUnavailableError(`RPC request failed: ${detail}`, error);
+  }
+  return new BadRequestError(detail, error);
+};
+
+// Short text for the error banner
+export const describeError = (error: unknown): string => {
+  const typed = toDCAError(error);
+  switch (typed.kind) {
+    case 'rate-limited':
+      return 'The RPC endpoint is rate limiting us.';
+    case 'rpc-unavailable':
+      return 'Could not reach the RPC endpoint.';
+    case 'decode-failed':
+      return 'Some DCA accounts could not be decoded.';
+    // These carry a message meant for the user, e.g. "Nothing to withdraw"
+    case 'empty-result':
+    case 'price-unavailable':
+    case 'bad-request':
+      return typed.message;
+  }
+};
@@ -0,0 +1,169 @@
+import type { ChartDataPoint, Position, TokenSummary } from '../types/dca';
+import { remainingUSD } from '../utils/value';
+
+export type ExportFormat = 'csv' | 'json';
+export type ExportDataset = 'positions' | 'summary' | 'history';
+
+// Bump when a column is renamed or removed; adding columns at the end is fine
+export const EXPORT_SCHEMA_VERSION = 1;
+
+type Cell = string | number | boolean | undefined;
+
+interface Column<T> {
+  key: string;
+  get: (row: T) => Cell;
+}
+
+export const POSITION_COLUMNS: Column<Position>[] = [
+  { key: 'publicKey', get: p => p.publicKey },
+  { key: 'owner', get: p => p.owner },
+  { key: 'token', get: p => p.token },
+  { key: 'type', get: p => p.type },
+  { key: 'inputMint', get: p => p.inputMint },
+  { key: 'outputMint', get: p => p.outputMint },
+  { key: 'inputDecimals', get: p => p.inputDecimals },
+  { key: 'outputDecimals', get: p => p.outputDecimals },
+  { key: 'amountPerCycle', get: p => p.amounts?.amountPerCycle.exact ?? p.amountPerCycle },
+  { key: 'totalAmount', get: p => p.amounts?.totalAmount.exact ?? p.totalAmount },
+  { key: 'amountRemaining', get: p => p.amounts?.amountRemaining.exact ?? p.progress.amountRemaining },
+  { key: 'cycleFrequency', get: p => p.cycleFrequency },
+  { key: 'cyclesCompleted', get: p => p.progress.cyclesCompleted },
+  { key: 'cyclesRemaining', get: p => p.progress.cyclesRemaining },
+  { key: 'nextCycleAt', get: p => new Date(p.progress.nextCycleAt).toISOString() },
+  { key: 'priceMin', get: p => p.priceRange.min },
+  { key: 'priceMax', get: p => p.priceRange.max },
+  { key: 'priceStatus', get: p => p.priceStatus },
+  { key: 'currentPrice', get: p => p.currentPrice },
+  { key: 'priceSource', get: p => p.priceQuote?.source },
+  { key: 'raw.idx', get: p => p.raw?.idx },
+  { key: 'raw.inDeposited', get: p => p.raw?.inDeposited },
+  { key: 'raw.inWithdrawn', get: p => p.raw?.inWithdrawn },
+  { key: 'raw.inUsed', get: p => p.raw?.inUsed },
+  { key: 'raw.outWithdrawn', get: p => p.raw?.outWithdrawn },
+  { key: 'raw.inAmountPerCycle', get: p => p.raw?.inAmountPerCycle },
+  { key: 'raw.nextCycleAt', get: p => p.raw?.nextCycleAt },
+  { key: 'raw.minOutAmount', get: p => p.raw?.minOutAmount },
+  { key: 'raw.maxOutAmount', get: p => p.raw?.maxOutAmount },
+  { key: 'counterToken', get: p => p.counterToken },
+  { key: 'counterMint', get: p => p.counterMint },
+  { key: 'priceToken', get: p => p.priceToken },
+  { key: 'remainingUSD', get: p => remainingUSD(p) }
+];
+
+type SummaryRow = TokenSummary & { token: string };
+
+export const SUMMARY_COLUMNS: Column<SummaryRow>[] = [
+  { key: 'token', get: s => s.token },
+  { key: 'buyOrders', get: s => s.buyOrders },
+  { key: 'sellOrders', get: s => s.sellOrders },
+  { key: 'buyVolume', get: s => s.amounts?.buyVolume?.exact ?? s.buyVolume },
+  { key: 'sellVolume', get: s => s.amounts?.sellVolume.exact ?? s.sellVolume },
+  { key: 'buyVolumeUSDC', get: s => s.buyVolumeUSDC },
+  { key: 'sellVolumeUSDC', get: s => s.sellVolumeUSDC },
+  { key: 'price', get: s => s.price?.price ?? undefined },
+  { key: 'priceSource', get: s => s.price?.source },
+  { key: 'priceStale', get: s => s.price?.stale },
+  { key: 'blockedOrders', get: s => s.blocked?.orders },
+  { key: 'blockedBuyUSDC', get: s => s.blocked?.buyUSDC },
+  { key: 'blockedSellUSDC', get: s => s.blocked?.sellUSDC },
+  { key: 'owners', get: s => s.leaderboard?.owners },
+  { key: 'buyTop5Share', get: s => s.leaderboard?.concentration.buyTop5 },
+  { key: 'buyTop10Share', get: s => s.leaderboard?.concentration.buyTop10 },
+  { key: 'sellTop5Share', get: s => s.leaderboard?.concentration.sellTop5 },
+  { key: 'sellTop10Share', get: s => s.leaderboard?.concentration.sellTop10 },
+  { key: 'twoSidedOwners', get: s => s.leaderboard?.twoSided.length },
+  { key: 'buyVolumeUSD', get: s => s.buyVolumeUSD },
+  { key: 'unpricedBuys', get: s => s.unpricedBuys }
+];
+
+type HistoryRow = ChartDataPoint & { token: string };
+
+export const HISTORY_COLUMNS: Column<HistoryRow>[] = [
+  { key: 'token', get: h => h.token },
+  { key: 'timestamp', get: h => new Date(h.timestamp).toISOString() },
+  { key: 'buyVolume', get: h => h.buyVolume ?? undefined },
+  { key: 'sellVolume', get: h => h.sellVolume },
+  { key: 'buyOrders', get: h => h.buyOrders },
+  { key: 'sellOrders', get: h => h.sellOrders }
+];
+
+const escapeCSV = (value: Cell): string => {
+  if (value === undefined) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCSV = <T>(rows: T[], columns: Column<T>[]): string =>
+  [
+    columns.map(column => column.key).join(','),
+    ...rows.map(row => columns.map(column => escapeCSV(column.get(row))).join(','))
+  ].join('\n');
+
+const toRecords = <T>(rows: T[], columns: Column<T>[]) =>
+  rows.map(row => Object.fromEntries(columns.map(column => [column.key, column.get(row) ?? null])));
+
+export interface ExportInput {
+  positions: Position[];
+  summary: Record<string, TokenSummary>;
+  chartData: Record<string, ChartDataPoint[]>;
+  // Whatever filters produced this view, recorded in JSON exports
+  filters?: Record<string, unknown>;
+}
+
+const rowsFor = (dataset: ExportDataset, input: ExportInput) => {
+  switch (dataset) {
+    case 'positions':
+      return { rows: input.positions, columns: POSITION_COLUMNS as Column<unknown>[] };
+    case 'summary':
+      return {
+        rows: Object.entries(input.summary).map(([token, s]) => ({ ...s, token })),
+        columns: SUMMARY_COLUMNS as Column<unknown>[]
+      };
+    case 'history':
+      return {
+        rows: Object.entries(input.chartData).flatMap(([token, points]) =>
+          points.map(point => ({ ...point, token }))
+        ),
+        columns: HISTORY_COLUMNS as Column<unknown>[]
+      };
+  }
+};
+
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+export const exportData = (
+  dataset: ExportDataset,
+  format: ExportFormat,
+  input: ExportInput,
+  now = new Date()
+): ExportFile => {
+  const { rows, columns } = rowsFor(dataset, input);
+  const stamp = now.toISOString().replace(/[:.]/g, '-');
+
+  if (format === 'csv') {
+    return {
+      filename: `open-dcas-${dataset}-${stamp}.csv`,
+      mimeType: 'text/csv',
+      content: toCSV(rows, columns)
+    };
+  }
+
+  return {
+    filename: `open-dcas-${dataset}-${stamp}.json`,
+    mimeType: 'application/json',
+    content: JSON.stringify({
+      schemaVersion: EXPORT_SCHEMA_VERSION,
+      dataset,
+      exportedAt: now.toISOString(),
+      filters: input.filters ?? {},
+      columns: columns.map(column => column.key),
+      rows: toRecords(rows, columns)
+    }, null, 2)
+  };
+};
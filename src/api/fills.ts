@@ -0,0 +1,135 @@
+import BN from 'bn.js';
+import { Connection, PublicKey, type ParsedTransactionWithMeta, type TokenBalance } from '@solana/web3.js';
+import type { AccountTransaction, Fill, Position, PositionFills } from '../types/dca';
+import { sumTokenAmounts, toTokenAmount } from '../utils/amounts';
+
+// Signatures are walked newest first, one page at a time
+const SIGNATURE_PAGE_SIZE = 100;
+const MAX_SIGNATURES = 1000;
+const TRANSACTION_BATCH_SIZE = 25;
+
+interface FillCache {
+  fills: Fill[];
+  newestSignature?: string;
+}
+
+// Net change of the DCA account's balance of `mint` within a transaction
+const balanceDelta = (tx: ParsedTransactionWithMeta, owner: string, mint: string): BN => {
+  const sum = (balances?: TokenBalance[] | null) =>
+    (balances || [])
+      .filter(balance => balance.owner === owner && balance.mint === mint)
+      .reduce((total, balance) => total.add(new BN(balance.uiTokenAmount.amount)), new BN(0));
+
+  return sum(tx.meta?.postTokenBalances).sub(sum(tx.meta?.preTokenBalances));
+};
+
+export const summarizeFills = (fills: Fill[], position: Position): PositionFills => {
+  const totalSpent = sumTokenAmounts(fills.map(fill => fill.inAmount), position.inputDecimals);
+  const totalReceived = sumTokenAmounts(fills.map(fill => fill.outAmount), position.outputDecimals);
+
+  // Prices are quoted in the counter asset per unit of the tracked token
+  const averagePrice = position.type === 'BUY'
+    ? (totalReceived.value > 0 ? totalSpent.value / totalReceived.value : 0)
+    : (totalSpent.value > 0 ? totalReceived.value / totalSpent.value : 0);
+
+  return { fills, averagePrice, totalSpent, totalReceived };
+};
+
+export class FillHistoryService {
+  private cache = new Map<string, FillCache>();
+
+  constructor(private connection: Connection) {}
+
+  setConnection(connection: Connection) {
+    this.connection = connection;
+  }
+
+  // Turn a transaction into a fill when the DCA account spent input and received output
+  private decodeFill(tx: ParsedTransactionWithMeta, position: Position): Fill | null {
+    if (!tx.meta || tx.meta.err) {
+      return null;
+    }
+
+    const inDelta = balanceDelta(tx, position.publicKey, position.inputMint);
+    const outDelta = balanceDelta(tx, position.publicKey, position.outputMint);
+    if (!inDelta.isNeg() || outDelta.lten(0)) {
+      return null;
+    }
+
+    const inAmount = toTokenAmount(inDelta.neg(), position.inputDecimals);
+    const outAmount = toTokenAmount(outDelta, position.outputDecimals);
+    const price = position.type === 'BUY'
+      ? inAmount.value / outAmount.value
+      : outAmount.value / inAmount.value;
+
+    return {
+      signature: tx.transaction.signatures[0],
+      timestamp: (tx.blockTime ?? 0) * 1000,
+      inAmount,
+      outAmount,
+      price
+    };
+  }
+
+  // Collect signatures newer than `until`, newest first
+  private async getSignatures(address: PublicKey, until?: string): Promise<string[]> {
+    const signatures: string[] = [];
+    let before: string | undefined;
+
+    while (signatures.length < MAX_SIGNATURES) {
+      const page = await this.connection.getSignaturesForAddress(address, {
+        before,
+        until,
+        limit: SIGNATURE_PAGE_SIZE
+      });
+      signatures.push(...page.filter(sig => !sig.err).map(sig => sig.signature));
+      if (page.length < SIGNATURE_PAGE_SIZE) {
+        break;
+      }
+      before = page[page.length - 1].signature;
+    }
+
+    return signatures;
+  }
+
+  async getFills(position: Position): Promise<PositionFills> {
+    const cached = this.cache.get(position.publicKey) || { fills: [] };
+    const signatures = await this.getSignatures(
+      new PublicKey(position.publicKey),
+      cached.newestSignature
+    );
+
+    const newFills: Fill[] = [];
+    for (let i = 0; i < signatures.length; i += TRANSACTION_BATCH_SIZE) {
+      const transactions = await this.connection.getParsedTransactions(
+        signatures.slice(i, i + TRANSACTION_BATCH_SIZE),
+        { maxSupportedTransactionVersion: 0 }
+      );
+      transactions.forEach(tx => {
+        const fill = tx && this.decodeFill(tx, position);
+        if (fill) {
+          newFills.push(fill);
+        }
+      });
+    }
+
+    const fills = [...newFills, ...cached.fills].sort((a, b) => b.timestamp - a.timestamp);
+    this.cache.set(position.publicKey, {
+      fills,
+      newestSignature: signatures[0] ?? cached.newestSignature
+    });
+
+    return summarizeFills(fills, position);
+  }
+
+  // Latest transactions touching the account, failed ones included
+  async getRecentTransactions(address: string, limit: number): Promise<AccountTransaction[]> {
+    const page = await this.connection.getSignaturesForAddress(new PublicKey(address), { limit });
+    return page.map(sig => ({
+      signature: sig.signature,
+      timestamp: (sig.blockTime ?? 0) * 1000,
+      slot: sig.slot,
+      failed: sig.err !== null
+    }));
+  }
+}
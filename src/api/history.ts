@@ -0,0 +1,193 @@
+import type { ChartDataPoint, ChartRange, Snapshot, TokenSummary } from '../types/dca';
+
+const DB_NAME = 'open-dcas';
+const STORE_NAME = 'snapshots';
+const DB_VERSION = 1;
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export const RANGE_DURATION: Record<ChartRange, number> = {
+  '1h': HOUR,
+  '24h': DAY,
+  '7d': 7 * DAY,
+  '30d': 30 * DAY
+};
+
+// Bucket size used when reading a range back for the charts
+const RANGE_BUCKET: Record<ChartRange, number> = {
+  '1h': MINUTE,
+  '24h': 15 * MINUTE,
+  '7d': HOUR,
+  '30d': 6 * HOUR
+};
+
+const RETENTION = 30 * DAY;
+// Older snapshots are thinned out to one per bucket: [max age, bucket size]
+const COMPACTION_TIERS: [number, number][] = [
+  [7 * DAY, 6 * HOUR],
+  [DAY, HOUR]
+];
+const COMPACT_INTERVAL = HOUR;
+
+// Average every point that falls into the same bucket
+export const downsample = (points: ChartDataPoint[], bucketSize: number): ChartDataPoint[] => {
+  const buckets = new Map<number, ChartDataPoint[]>();
+  points.forEach(point => {
+    const bucket = Math.floor(point.timestamp / bucketSize) * bucketSize;
+    buckets.set(bucket, [...(buckets.get(bucket) || []), point]);
+  });
+
+  const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  // Mixed-funding points have no buy volume, average the rest
+  const averageKnown = (values: (number | null)[]) => {
+    const known = values.filter((v): v is number => v !== null);
+    return known.length ? average(known) : null;
+  };
+
+  return [...buckets.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([timestamp, bucketPoints]) => ({
+      timestamp,
+      buyVolume: averageKnown(bucketPoints.map(p => p.buyVolume)),
+      sellVolume: average(bucketPoints.map(p => p.sellVolume)),
+      buyOrders: Math.round(average(bucketPoints.map(p => p.buyOrders ?? 0))),
+      sellOrders: Math.round(average(bucketPoints.map(p => p.sellOrders ?? 0)))
+    }));
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// One row per token, the shape kept in history and written by the CLI
+export const toSnapshots = (summary: Record<string, TokenSummary>, timestamp: number): Snapshot[] =>
+  Object.entries(summary).map(([token, s]) => ({
+    token,
+    timestamp,
+    buyVolume: s.buyVolume ?? null,
+    sellVolume: s.sellVolume,
+    buyOrders: s.buyOrders,
+    sellOrders: s.sellOrders,
+    buyVolumeUSDC: s.buyVolumeUSDC,
+    sellVolumeUSDC: s.sellVolumeUSDC ?? null
+  }));
+
+export class SnapshotHistory {
+  private db: Promise<IDBDatabase> | null = null;
+  // Used when IndexedDB is unavailable (private browsing, tests)
+  private memory: Snapshot[] = [];
+  private lastCompaction = 0;
+
+  // Non-persistent histories stay in memory, e.g. while replaying a fixture
+  constructor(private persistent = true) {}
+
+  private open(): Promise<IDBDatabase> | null {
+    if (!this.persistent || typeof indexedDB === 'undefined') {
+      return null;
+    }
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE_NAME, { keyPath: ['token', 'timestamp'] });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      this.db.catch(error => {
+        console.error('Failed to open snapshot store, keeping history in memory:', error);
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  private async store(): Promise<IDBObjectStore | null> {
+    try {
+      const db = await this.open();
+      return db ? db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async record(summary: Record<string, TokenSummary>, timestamp = Date.now()): Promise<void> {
+    const snapshots = toSnapshots(summary, timestamp);
+
+    const store = await this.store();
+    if (store) {
+      await Promise.all(snapshots.map(snapshot => requestToPromise(store.put(snapshot))));
+    } else {
+      this.memory.push(...snapshots);
+    }
+
+    if (timestamp - this.lastCompaction > COMPACT_INTERVAL) {
+      this.lastCompaction = timestamp;
+      await this.compact(timestamp);
+    }
+  }
+
+  private async readAll(token: string, since: number, until: number): Promise<Snapshot[]> {
+    const store = await this.store();
+    if (!store) {
+      return this.memory.filter(s => s.token === token && s.timestamp >= since && s.timestamp <= until);
+    }
+    return requestToPromise(store.getAll(IDBKeyRange.bound([token, since], [token, until])));
+  }
+
+  async getSeries(token: string, range: ChartRange, now = Date.now()): Promise<ChartDataPoint[]> {
+    const snapshots = await this.readAll(token, now - RANGE_DURATION[range], now);
+    return downsample(snapshots, RANGE_BUCKET[range]);
+  }
+
+  async getChartData(tokens: string[], range: ChartRange): Promise<Record<string, ChartDataPoint[]>> {
+    const series = await Promise.all(tokens.map(token => this.getSeries(token, range)));
+    return Object.fromEntries(tokens.map((token, i) => [token, series[i]]));
+  }
+
+  // Drop snapshots past retention and thin out older ones so the store stays small
+  async compact(now = Date.now()): Promise<void> {
+    const keep = (snapshots: Snapshot[]): Snapshot[] => {
+      const seen = new Set<string>();
+      // Walk newest first so the latest snapshot in each bucket survives
+      return [...snapshots]
+        .sort((a, b) => b.timestamp - a.timestamp)
+        .filter(snapshot => {
+          const age = now - snapshot.timestamp;
+          if (age > RETENTION) {
+            return false;
+          }
+          const tier = COMPACTION_TIERS.find(([maxAge]) => age > maxAge);
+          if (!tier) {
+            return true;
+          }
+          const bucket = `${snapshot.token}:${tier[1]}:${Math.floor(snapshot.timestamp / tier[1])}`;
+          if (seen.has(bucket)) {
+            return false;
+          }
+          seen.add(bucket);
+          return true;
+        });
+    };
+
+    const store = await this.store();
+    if (!store) {
+      this.memory = keep(this.memory).reverse();
+      return;
+    }
+
+    const all = await requestToPromise(store.getAll()) as Snapshot[];
+    const kept = new Set(keep(all));
+    await Promise.all(
+      all
+        .filter(snapshot => !kept.has(snapshot))
+        .map(snapshot => requestToPromise(store.delete([snapshot.token, snapshot.timestamp])))
+    );
+  }
+}
+
+export const snapshotHistory = new SnapshotHistory();
@@ -1,284 +1,665 @@
-import { DCA, Network } from '@jup-ag/dca-sdk';
-import { Connection, PublicKey } from '@solana/web3.js';
+import { DCA } from '@jup-ag/dca-sdk';
+import { Connection, PublicKey, type Transaction } from '@solana/web3.js';
 import BN from 'bn.js';
-import type { TokenSummary, Position, ChartDataPoint } from '../types/dca';
-
-const LOGOS_MINT = 'HJUfqXoYjC653f2p33i84zdCC3jc4EuVnbruSe5kpump';
-const CHAOS_MINT = '8SgNwESovnbG1oNEaPVhg6CR9mTMSK7jPvcYRe3wpump';
-
-interface DCAAccountType {
-  publicKey: PublicKey;
-  account: {
-    user: PublicKey;
-    inputMint: PublicKey;
-    outputMint: PublicKey;
-    idx: BN;
-    nextCycleAt: BN;
-    inDeposited: BN;
-    inWithdrawn: BN;
-    outWithdrawn: BN;
-    inUsed: BN;
-    inAmountPerCycle: BN;
-    cycleFrequency: BN;
-    bump: number;
-    minOutAmount?: BN;
-    maxOutAmount?: BN;
-  };
+import type {
+  AccountTransaction,
+  TokenSummary,
+  Position,
+  PositionFills,
+  ChartDataPoint,
+  ChartRange,
+  TrackedToken,
+  DCAData,
+  DCAFixture,
+  FeedStatus,
+  OrderRequest,
+  OrderResult,
+  PositionActionRequest,
+  PositionBalances,
+  PositionDelta,
+  PriceQuote,
+  TxStatus,
+  WalletData
+} from '../types/dca';
+import { tokenRegistry, isQuoteMint } from '../config/tokens';
+import { clusterConfig, type ClusterConfig } from '../config/cluster';
+import { parseUnits, toTokenAmount, sumTokenAmounts } from '../utils/amounts';
+import { computeProgress } from '../utils/progress';
+import { classifyPriceStatus, priceRangeFor, summarizeBlocked } from '../utils/priceBounds';
+import { buildLeaderboard } from '../utils/owners';
+import { summarizeByCounterAsset } from '../utils/value';
+import { buildCreateParams, buildWithdrawParams, dropOtherSideUnwrap, toBigInt } from '../utils/orders';
+import { MintDecimalsCache } from './mints';
+import { SnapshotHistory, snapshotHistory } from './history';
+import { FillHistoryService } from './fills';
+import { DCAAccountFetcher, mintsOf, type DCAAccountType } from './accounts';
+import { LiveAccountFeed } from './live';
+import { PriceService, priceService } from './prices';
+import { RpcPool } from './rpc';
+import { sendWithSigner, type TransactionSigner } from './signer';
+import {
+  BadRequestError,
+  DCAError,
+  DecodeError,
+  EmptyResultError,
+  PriceUnavailableError,
+  RpcUnavailableError,
+  toDCAError
+} from './errors';
+import type { DCADataSource } from './dataSource';
+
+const DELTA_DEBOUNCE = 500;
+const RETRY_BASE_DELAY = 1000;
+const RETRY_MAX_DELAY = 8000;
+
+interface TokenAccounts {
+  buys: DCAAccountType[];
+  sells: DCAAccountType[];
 }
 
-class JupiterDCAAPI {
-  private dca!: DCA;
-  private connection: Connection;
-  private jupiterApiUrl = 'https://api.jup.ag/price/v2';
+// What the last full refresh read, kept for exportFixture
+interface RefreshRecord {
+  timestamp: number;
+  tokens: TrackedToken[];
+  accounts: DCAFixture['accounts'];
+  quotes: Record<string, PriceQuote>;
+}
 
-  constructor() {
-    this.connection = new Connection(import.meta.env.VITE_HELIUS_RPC_URL);
-    this.initDCA();
+export const FIXTURE_VERSION = 1;
+
+// Build the key before any RPC call, so a bad address fails fast instead of being retried
+const parseAddress = (address: string): PublicKey => {
+  try {
+    return new PublicKey(address);
+  } catch (error) {
+    throw new BadRequestError(`Not a valid Solana address: ${address}`, error);
   }
+};
 
-  private async initDCA() {
-    try {
-      this.dca = new DCA(this.connection, Network.MAINNET);
-    } catch (error) {
-      console.error('Failed to initialize DCA:', error);
-      // Try to reconnect
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      this.connection = new Connection(import.meta.env.VITE_HELIUS_RPC_URL);
-      this.initDCA();
+// Which token an account trades when it isn't looked up by tracked mint.
+// Selling into a quote asset is a SELL of the input, anything else buys the output.
+const classifyAccount = (acc: DCAAccountType, symbolForMint: (mint: string) => string) => {
+  const inputMint = acc.account.inputMint.toString();
+  const outputMint = acc.account.outputMint.toString();
+  const isSell = !isQuoteMint(inputMint) && (isQuoteMint(outputMint) || tokenRegistry.isTracked(inputMint));
+  const mint = isSell ? inputMint : outputMint;
+  return { symbol: symbolForMint(mint), mint, isSell };
+};
+
+export class JupiterDCAAPI implements DCADataSource {
+  readonly name: string = 'jupiter';
+  readonly label: string = 'Jupiter (live RPC)';
+  private dca!: DCA;
+  private pool?: RpcPool;
+  private connection?: Connection;
+  protected mintDecimals!: MintDecimalsCache;
+  private fillHistory!: FillHistoryService;
+  private accountFetcher!: DCAAccountFetcher;
+  private lastRefresh?: RefreshRecord;
+
+  constructor(
+    private prices: PriceService = priceService,
+    private cluster: ClusterConfig = clusterConfig,
+    private history: SnapshotHistory = snapshotHistory
+  ) {}
+
+  // Connect on first use so importing this module never needs a live RPC
+  protected ensureConnected() {
+    if (!this.pool) {
+      this.pool = new RpcPool(this.cluster.rpcUrls);
+      this.attach(this.pool.connection);
+      this.pool.onChange(connection => this.useConnection(connection));
+      this.pool.startHealthChecks();
     }
   }
 
+  // Build the RPC helpers around the first connection
+  protected attach(connection: Connection) {
+    this.mintDecimals = new MintDecimalsCache(connection);
+    this.fillHistory = new FillHistoryService(connection);
+    this.accountFetcher = new DCAAccountFetcher(connection, this.cluster.programId);
+    this.useConnection(connection);
+  }
+
+  // Symbols go through here so a replay can answer from its fixture
+  protected symbolForMint(mint: string): string {
+    return tokenRegistry.symbolForMint(mint);
+  }
+
+  protected resolveSymbols(mints: string[]): Promise<void> {
+    return tokenRegistry.resolveSymbols(mints);
+  }
+
+  // Point the SDK and every helper at the endpoint the pool picked
+  private useConnection(connection: Connection) {
+    this.connection = connection;
+    // The SDK only knows mainnet and devnet, a local validator runs the mainnet program
+    const sdkCluster = this.cluster.cluster === 'devnet' ? 'devnet' : 'mainnet-beta';
+    this.dca = new DCA(connection, sdkCluster, this.cluster.programId);
+    this.mintDecimals.setConnection(connection);
+    this.fillHistory.setConnection(connection);
+    this.accountFetcher.setConnection(connection);
+  }
+
+  // Retries RPC and rate-limit failures with a capped exponential backoff.
+  // Everything else (decode failures, ...) is thrown straight away.
   private async withRetry<T>(operation: () => Promise<T>, maxRetries = 3): Promise<T> {
-    let lastError: any;
+    let lastError: DCAError = new RpcUnavailableError();
     for (let i = 0; i < maxRetries; i++) {
+      // A higher priority endpoint may have recovered since the last call
+      this.pool?.pick();
       try {
-        return await operation();
+        const result = await operation();
+        this.pool?.reportSuccess();
+        return result;
       } catch (error) {
-        console.log(`Attempt ${i + 1} failed:`, error);
-        lastError = error;
-        // Wait longer between each retry
-        await new Promise(resolve => setTimeout(resolve, 1000 * (i + 1)));
+        console.warn(`Attempt ${i + 1} failed:`, error);
+        lastError = toDCAError(error);
+        if (!lastError.retryable) {
+          throw lastError;
+        }
+        // Retry straight away on another endpoint, otherwise back off
+        const failedOver = this.pool?.reportFailure(error) ?? false;
+        if (!failedOver && i < maxRetries - 1) {
+          await new Promise(resolve => setTimeout(resolve, Math.min(RETRY_BASE_DELAY * 2 ** i, RETRY_MAX_DELAY)));
+        }
       }
     }
     throw lastError;
   }
 
-  private async getCurrentPrice(mint: string): Promise<{ price: number; mint: string }> {
-    try {
-      const response = await fetch(
-        `${this.jupiterApiUrl}?ids=${mint}`
-      );
-      const data = await response.json();
-      
-      const price = data.data?.[mint]?.price || 0;
-      console.log(`Price fetched for ${mint}:`, price);
-      return {
-        price: Number(price),
-        mint
-      };
-    } catch (error) {
-      console.error('Error fetching price:', error);
-      return { price: 0, mint };
+  // USD price of a mint, assuming $1 for stablecoins the price APIs didn't cover
+  private usdPrice(quotesByMint: Record<string, PriceQuote>, mint: string): number | undefined {
+    const price = quotesByMint[mint]?.price;
+    if (price !== null && price !== undefined) {
+      return price;
     }
+    return isQuoteMint(mint) ? 1 : undefined;
   }
 
   // Convert SDK account format to our Position type
-  private convertDCAAccount(account: DCAAccountType, price: number, token: string, type: "BUY" | "SELL"): Position {
-    console.log('Converting account:', {
-      inputMint: account.account.inputMint.toString(),
-      outputMint: account.account.outputMint.toString()
-    });
+  private convertDCAAccount(
+    account: DCAAccountType,
+    quotesByMint: Record<string, PriceQuote>,
+    token: string,
+    type: "BUY" | "SELL",
+    decimals: Record<string, number>
+  ): Position {
+    const inputMint = account.account.inputMint.toString();
+    const outputMint = account.account.outputMint.toString();
+    const inputDecimals = decimals[inputMint];
+    const outputDecimals = decimals[outputMint];
+    const amountPerCycle = toTokenAmount(account.account.inAmountPerCycle, inputDecimals);
+    const totalAmount = toTokenAmount(
+      account.account.inDeposited.sub(account.account.inWithdrawn),
+      inputDecimals
+    );
+    const { progress, amountRemaining } = computeProgress(account.account, inputDecimals);
+    const tokenMint = type === "BUY" ? outputMint : inputMint;
+    const counterMint = type === "BUY" ? inputMint : outputMint;
+    const counterToken = this.symbolForMint(counterMint);
+    const tokenUSD = this.usdPrice(quotesByMint, tokenMint);
+    const counterUSD = this.usdPrice(quotesByMint, counterMint);
+    // Price bounds are in counter asset units, so the current price has to be too
+    const price = tokenUSD !== undefined && counterUSD ? tokenUSD / counterUSD : undefined;
+    const priceRange = priceRangeFor(account.account, type, inputDecimals, outputDecimals);
 
     return {
       id: account.publicKey.toString(),
+      owner: account.account.user.toString(),
       token,
       type,
-      inputToken: type === "BUY" ? "USDC" : token,
-      outputToken: type === "BUY" ? token : "USDC",
-      inputAmount: account.account.inAmountPerCycle.toNumber() / Math.pow(10, 6),
-      totalAmount: account.account.inDeposited.sub(account.account.inWithdrawn).toNumber() / Math.pow(10, 6),
-      amountPerCycle: account.account.inAmountPerCycle.toNumber() / Math.pow(10, 6),
-      remainingCycles: account.account.cycleFrequency.toNumber(),
+      inputToken: type === "BUY" ? counterToken : token,
+      outputToken: type === "BUY" ? token : counterToken,
+      inputMint,
+      outputMint,
+      counterToken,
+      counterMint,
+      inputDecimals,
+      outputDecimals,
+      inputAmount: amountPerCycle.value,
+      totalAmount: totalAmount.value,
+      amountPerCycle: amountPerCycle.value,
+      remainingCycles: progress.cyclesRemaining,
       cycleFrequency: account.account.cycleFrequency.toNumber(),
       lastUpdate: account.account.nextCycleAt.toNumber() * 1000,
       publicKey: account.publicKey.toString(),
-      targetPrice: (account.account.minOutAmount?.toNumber() || 0) / Math.pow(10, 6),
+      priceRange,
+      priceStatus: classifyPriceStatus(priceRange, price),
       currentPrice: price,
-      priceToken: "USDC",
-      estimatedOutput: type === "SELL" ? 
-        (account.account.inAmountPerCycle.toNumber() / Math.pow(10, 6)) * price : undefined
+      priceQuote: quotesByMint[tokenMint],
+      priceToken: counterToken,
+      inputPriceUSD: type === "BUY" ? counterUSD : tokenUSD,
+      estimatedOutput: type === "SELL" && price !== undefined ? amountPerCycle.value * price : undefined,
+      progress,
+      raw: {
+        idx: account.account.idx.toString(),
+        bump: account.account.bump,
+        nextCycleAt: account.account.nextCycleAt.toString(),
+        inDeposited: account.account.inDeposited.toString(),
+        inWithdrawn: account.account.inWithdrawn.toString(),
+        outWithdrawn: account.account.outWithdrawn.toString(),
+        inUsed: account.account.inUsed.toString(),
+        inAmountPerCycle: account.account.inAmountPerCycle.toString(),
+        cycleFrequency: account.account.cycleFrequency.toString(),
+        minOutAmount: account.account.minOutAmount?.toString() ?? '0',
+        maxOutAmount: account.account.maxOutAmount?.toString() ?? '0',
+        outReceived: account.account.outReceived?.toString() ?? '0',
+        nextCycleAmountLeft: account.account.nextCycleAmountLeft?.toString() ?? '0',
+        createdAt: account.account.createdAt?.toString() ?? '0',
+        keeperInBalanceBeforeBorrow: account.account.keeperInBalanceBeforeBorrow?.toString() ?? '0',
+        dcaOutBalanceBeforeSwap: account.account.dcaOutBalanceBeforeSwap?.toString() ?? '0',
+        inAccount: account.account.inAccount?.toString(),
+        outAccount: account.account.outAccount?.toString()
+      },
+      amounts: {
+        inputAmount: amountPerCycle,
+        totalAmount,
+        amountPerCycle,
+        amountRemaining
+      }
     };
   }
 
-  async getDCAAccounts(): Promise<{
-    positions: Position[],
-    summary: Record<string, TokenSummary>,
-    chartData: Record<string, ChartDataPoint[]>
-  }> {
+  // Executed fills for a position, decoded from its transaction history
+  async getPositionFills(position: Position): Promise<PositionFills> {
+    this.ensureConnected();
+    return this.withRetry(() => this.fillHistory.getFills(position));
+  }
+
+  async getChartHistory(
+    range: ChartRange,
+    tokens: TrackedToken[] = tokenRegistry.getTokens()
+  ): Promise<Record<string, ChartDataPoint[]>> {
+    return this.history.getChartData(tokens.map(token => token.symbol), range);
+  }
+
+  async getDCAAccounts(
+    tokens: TrackedToken[] = tokenRegistry.getTokens(),
+    range: ChartRange = '24h'
+  ): Promise<DCAData> {
     try {
+      this.ensureConnected();
       if (!this.dca) {
-        throw new Error('DCA SDK not initialized');
+        throw new RpcUnavailableError('DCA SDK not initialized');
       }
 
-      // Wrap the fetch in retry logic
-      const allAccounts = await this.withRetry(async () => {
-        const accounts = await this.dca.getAll();
-        if (!accounts || accounts.length === 0) {
-          throw new Error('No accounts returned');
-        }
-        return accounts;
-      });
-
-      // After getting allAccounts
-      console.log('Account details:', allAccounts.map(acc => ({
-        input: acc.account.inputMint.toString(),
-        output: acc.account.outputMint.toString(),
-        isLogosInput: acc.account.inputMint.equals(new PublicKey(LOGOS_MINT)),
-        isLogosOutput: acc.account.outputMint.equals(new PublicKey(LOGOS_MINT))
-      })));
-
-      // 2. Initial categorization
-      const accountsByToken = {
-        LOGOS: {
-          buys: allAccounts.filter(acc => acc.account.outputMint.equals(new PublicKey(LOGOS_MINT))),
-          sells: allAccounts.filter(acc => acc.account.inputMint.equals(new PublicKey(LOGOS_MINT)))
-        },
-        CHAOS: {
-          buys: allAccounts.filter(acc => acc.account.outputMint.equals(new PublicKey(CHAOS_MINT))),
-          sells: allAccounts.filter(acc => acc.account.inputMint.equals(new PublicKey(CHAOS_MINT)))
-        }
-      };
+      // Only request accounts whose input or output mint is tracked
+      const allAccounts = await this.withRetry(() =>
+        this.accountFetcher.fetchByMints(tokens.map(token => token.mint))
+      );
+      const { failed } = this.accountFetcher.lastStats;
 
-      // After categorization
-      console.log('LOGOS Accounts:', {
-        buys: accountsByToken.LOGOS.buys.map(acc => ({
-          input: acc.account.inputMint.toString(),
-          output: acc.account.outputMint.toString()
-        })),
-        sells: accountsByToken.LOGOS.sells.map(acc => ({
-          input: acc.account.inputMint.toString(),
-          output: acc.account.outputMint.toString()
-        }))
-      });
-
-      console.log('Accounts by token:', {
-        LOGOS: {
-          buys: accountsByToken.LOGOS.buys.length,
-          sells: accountsByToken.LOGOS.sells.length
-        },
-        CHAOS: {
-          buys: accountsByToken.CHAOS.buys.length,
-          sells: accountsByToken.CHAOS.sells.length
-        }
-      });
-
-      // Get prices before calculating summary
-      const [logosPrice, chaosPrice] = await Promise.all([
-        this.getCurrentPrice(LOGOS_MINT),
-        this.getCurrentPrice(CHAOS_MINT)
-      ]);
-
-      // Calculate summary with prices
-      const summary = this.calculateSummaryFromRawAccounts(accountsByToken, {
-        LOGOS: logosPrice.price,
-        CHAOS: chaosPrice.price
-      });
-
-      // 4. Then process individual positions
-      const positions = [
-        ...accountsByToken.LOGOS.buys.map(acc => this.convertDCAAccount(acc, 0, "LOGOS", "BUY")),
-        ...accountsByToken.LOGOS.sells.map(acc => this.convertDCAAccount(acc, 0, "LOGOS", "SELL")),
-        ...accountsByToken.CHAOS.buys.map(acc => this.convertDCAAccount(acc, 0, "CHAOS", "BUY")),
-        ...accountsByToken.CHAOS.sells.map(acc => this.convertDCAAccount(acc, 0, "CHAOS", "SELL"))
-      ];
-
-      // 5. Update prices and positions
-      const positionsWithPrices = positions.map(pos => ({
-        ...pos,
-        currentPrice: pos.token === 'LOGOS' ? logosPrice.price : chaosPrice.price
-      }));
-
-      // Add the return statement
-      const chartData = {
-        LOGOS: [{
-          timestamp: Date.now(),
-          buyVolume: summary.LOGOS.buyVolume,
-          sellVolume: summary.LOGOS.sellVolume,
-          buyOrders: summary.LOGOS.buyOrders,
-          sellOrders: summary.LOGOS.sellOrders
-        }],
-        CHAOS: [{
-          timestamp: Date.now(),
-          buyVolume: summary.CHAOS.buyVolume,
-          sellVolume: summary.CHAOS.sellVolume,
-          buyOrders: summary.CHAOS.buyOrders,
-          sellOrders: summary.CHAOS.sellOrders
-        }]
-      };
+      // Categorize accounts by tracked token
+      const accountsByToken = this.categorizeAccounts(allAccounts, tokens);
+
+      const { positions, summary, warnings = [], quotes } = await this.processAccounts(accountsByToken, tokens);
+      this.lastRefresh = { timestamp: Date.now(), tokens, accounts: this.accountFetcher.getRaw(), quotes };
+      if (failed.length > 0) {
+        warnings.push(new DecodeError(failed.join(', ')).toWarning());
+      }
+
+      // Store this refresh and read the series back from history
+      await this.history.record(summary);
+      const chartData = await this.getChartHistory(range, tokens);
 
       return { 
-        positions: positionsWithPrices, 
+        positions, 
         summary, 
-        chartData 
+        chartData,
+        warnings
       };
     } catch (error) {
       console.error('Error fetching DCA accounts:', error);
-      throw error;
+      throw toDCAError(error);
     }
   }
 
-  private calculateSummaryFromRawAccounts(
-    accountsByToken: {
-      LOGOS: { buys: DCAAccountType[], sells: DCAAccountType[] },
-      CHAOS: { buys: DCAAccountType[], sells: DCAAccountType[] }
-    },
-    prices: { LOGOS: number, CHAOS: number }
-  ): Record<string, TokenSummary> {
-    // Add more detailed debug logs
-    console.log('Current LOGOS price:', prices.LOGOS);
-    console.log('LOGOS sell accounts:', accountsByToken.LOGOS.sells.length);
-    
-    const logosSellVolumeUSDC = Math.round(accountsByToken.LOGOS.sells.reduce((sum, acc) => {
-      const volume = acc.account.inDeposited.sub(acc.account.inWithdrawn).toNumber() / Math.pow(10, 6);
-      const usdcValue = volume * prices.LOGOS;
-      console.log('LOGOS sell position calculation:', {
-        volume,
-        price: prices.LOGOS,
-        usdcValue,
-        runningTotal: sum + usdcValue
-      });
-      return sum + usdcValue;
-    }, 0));
-
-    console.log('Final LOGOS sell volume in USDC:', logosSellVolumeUSDC);
-
-    const summary: Record<string, TokenSummary> = {
-      LOGOS: {
-        buyOrders: accountsByToken.LOGOS.buys.length,
-        sellOrders: accountsByToken.LOGOS.sells.length,
-        buyVolume: accountsByToken.LOGOS.buys.reduce((sum, acc) => 
-          sum + acc.account.inDeposited.sub(acc.account.inWithdrawn).toNumber() / Math.pow(10, 6), 0),
-        sellVolume: accountsByToken.LOGOS.sells.reduce((sum, acc) => 
-          sum + acc.account.inDeposited.sub(acc.account.inWithdrawn).toNumber() / Math.pow(10, 6), 0),
-        buyVolumeUSDC: Math.round(accountsByToken.LOGOS.buys.reduce((sum, acc) => 
-          sum + acc.account.inAmountPerCycle.toNumber() / Math.pow(10, 6), 0)),
-        sellVolumeUSDC: logosSellVolumeUSDC
-      },
-      CHAOS: {
-        buyOrders: accountsByToken.CHAOS.buys.length,
-        sellOrders: accountsByToken.CHAOS.sells.length,
-        buyVolume: accountsByToken.CHAOS.buys.reduce((sum, acc) => 
-          sum + acc.account.inDeposited.sub(acc.account.inWithdrawn).toNumber() / Math.pow(10, 6), 0),
-        sellVolume: accountsByToken.CHAOS.sells.reduce((sum, acc) => 
-          sum + acc.account.inDeposited.sub(acc.account.inWithdrawn).toNumber() / Math.pow(10, 6), 0),
-        buyVolumeUSDC: Math.round(accountsByToken.CHAOS.buys.reduce((sum, acc) => 
-          sum + acc.account.inAmountPerCycle.toNumber() / Math.pow(10, 6), 0)),
-        sellVolumeUSDC: Math.round(accountsByToken.CHAOS.sells.reduce((sum, acc) => 
-          sum + (acc.account.inDeposited.sub(acc.account.inWithdrawn).toNumber() / Math.pow(10, 6)) * prices.CHAOS, 0))
+  // Push account changes for the tracked mints as position deltas
+  subscribe(
+    tokens: TrackedToken[],
+    onDelta: (delta: PositionDelta) => void,
+    onStatus: (status: FeedStatus) => void
+  ): () => void {
+    this.ensureConnected();
+    const feed = new LiveAccountFeed(
+      this.connection!,
+      this.accountFetcher,
+      this.cluster.programId,
+      onStatus
+    );
+    // Follow failovers so the websocket isn't left on a dead endpoint
+    const unsubscribePool = this.pool!.onChange(connection => feed.setConnection(connection));
+
+    const updated = new Set<string>();
+    const removed = new Set<string>();
+    let flushTimer: ReturnType<typeof setTimeout> | undefined;
+
+    // Batch bursts of changes (a keeper filling many DCAs) into one delta
+    const flush = async () => {
+      flushTimer = undefined;
+      const changedIds = new Set(updated);
+      const removedIds = [...removed];
+      updated.clear();
+      removed.clear();
+
+      try {
+        const accountsByToken = this.categorizeAccounts(this.accountFetcher.getCached(), tokens);
+        const { positions, summary } = await this.processAccounts(accountsByToken, tokens);
+        onDelta({
+          upserted: positions.filter(position => changedIds.has(position.id)),
+          removed: removedIds,
+          summary
+        });
+      } catch (error) {
+        console.error('Failed to apply account changes:', error);
+      }
+    };
+
+    feed.start(tokens.map(token => token.mint), (publicKey, info) => {
+      const result = this.accountFetcher.applyChange(publicKey, info);
+      if (result === 'unchanged') {
+        return;
+      }
+      const key = publicKey.toString();
+      if (result === 'removed') {
+        updated.delete(key);
+        removed.add(key);
+      } else {
+        removed.delete(key);
+        updated.add(key);
+      }
+      if (!flushTimer) {
+        flushTimer = setTimeout(flush, DELTA_DEBOUNCE);
+      }
+    });
+
+    return () => {
+      if (flushTimer) {
+        clearTimeout(flushTimer);
       }
+      unsubscribePool();
+      feed.stop();
     };
+  }
+
+  // Open a new DCA position from the signer's wallet
+  async createOrder(
+    order: OrderRequest,
+    signer: TransactionSigner,
+    onStatus?: (status: TxStatus, signature?: string) => void
+  ): Promise<OrderResult> {
+    this.ensureConnected();
+    const decimals = await this.mintDecimals.resolve([order.inputMint, order.outputMint]);
+    const params = buildCreateParams(order, signer.publicKey, {
+      input: decimals[order.inputMint],
+      output: decimals[order.outputMint]
+    });
+
+    // Not retried: a failure here is usually the balance check, not the RPC
+    const { tx, dcaPubKey } = await this.dca.createDcaV2(params);
+    const signature = await sendWithSigner(this.connection!, signer, tx, onStatus);
+    return { signature, dca: dcaPubKey.toString() };
+  }
+
+  // What a withdrawal would return right now, read from the DCA's token accounts
+  async getPositionBalances(position: Position): Promise<PositionBalances> {
+    this.ensureConnected();
+    const dca = parseAddress(position.publicKey);
+    const balances = await this.withRetry(() => this.dca.getBalancesByAccount(dca));
+    return {
+      input: toTokenAmount(new BN(balances.in.dcaBalance.toString()), balances.in.decimals),
+      output: toTokenAmount(new BN(balances.out.dcaBalance.toString()), balances.out.decimals)
+    };
+  }
+
+  async managePosition(
+    request: PositionActionRequest,
+    signer: TransactionSigner,
+    onStatus?: (status: TxStatus, signature?: string) => void
+  ): Promise<string> {
+    this.ensureConnected();
+    const { position, action } = request;
+    if (signer.publicKey.toString() !== position.owner) {
+      throw new BadRequestError(`${signer.label} doesn't own this position, only ${position.owner} can change it`);
+    }
+    const user = signer.publicKey;
+    const dca = parseAddress(position.publicKey);
+
+    // Not retried, same as createOrder
+    let tx: Transaction;
+    if (action === 'close') {
+      ({ tx } = await this.dca.closeDCA({ user, dca }));
+    } else if (action === 'deposit') {
+      const amount = toBigInt(parseUnits(request.amount ?? '', position.inputDecimals));
+      ({ tx } = await this.dca.deposit({ user, dca, amount }));
+    } else {
+      const side = action === 'withdraw-input' ? 'in' : 'out';
+      const balances = await this.dca.getBalancesByAccount(dca);
+      const amount = balances[side].dcaBalance;
+      if (amount === 0n) {
+        throw new EmptyResultError(`Nothing to withdraw, the position holds no ${side === 'in' ? position.inputToken : position.outputToken} right now`);
+      }
+      ({ tx } = await this.dca.withdraw(buildWithdrawParams(position, user, side, amount)));
+      tx = dropOtherSideUnwrap(tx, position, side);
+    }
+
+    const signature = await sendWithSigner(this.connection!, signer, tx, onStatus);
+    return signature;
+  }
+
+  // Everything the last full refresh read from the network, for ReplayDCAAPI
+  exportFixture(): DCAFixture {
+    if (!this.lastRefresh) {
+      throw new EmptyResultError('Nothing to record yet, wait for the first refresh');
+    }
+    const { timestamp, tokens, accounts, quotes } = this.lastRefresh;
+    const mints = [...new Set([...tokens.map(token => token.mint), ...accounts.flatMap(mintsOf)])];
+
+    // Group prices under the provider that answered, so replay reports the same source
+    const prices: DCAFixture['prices'] = {};
+    Object.values(quotes).forEach(quote => {
+      if (quote.price !== null) {
+        prices[quote.source] = { ...prices[quote.source], [quote.mint]: quote.price };
+      }
+    });
+
+    return {
+      version: FIXTURE_VERSION,
+      recordedAt: timestamp,
+      cluster: this.cluster.cluster,
+      programId: this.cluster.programId.toString(),
+      tokens,
+      accounts,
+      decimals: Object.fromEntries(mints.map(mint => [mint, this.mintDecimals.get(mint)])),
+      symbols: Object.fromEntries(mints.map(mint => [mint, this.symbolForMint(mint)])),
+      prices
+    };
+  }
+
+  // A single DCA account by address, whether or not its token is tracked
+  async getPosition(address: string): Promise<Position> {
+    this.ensureConnected();
+    const publicKey = parseAddress(address);
+    const account = await this.withRetry(() => this.accountFetcher.fetchOne(publicKey));
+    if (!account) {
+      throw new EmptyResultError(`No DCA account at ${address}, it may have been closed`);
+    }
+
+    const { symbol, mint, isSell } = classifyAccount(account, mint => this.symbolForMint(mint));
+    const { positions } = await this.processAccounts(
+      { [symbol]: { buys: isSell ? [] : [account], sells: isSell ? [account] : [] } },
+      [{ symbol, mint }]
+    );
+    return positions[0];
+  }
+
+  async getPositionTransactions(position: Position, limit = 20): Promise<AccountTransaction[]> {
+    this.ensureConnected();
+    return this.withRetry(() => this.fillHistory.getRecentTransactions(position.publicKey, limit));
+  }
+
+  // Every DCA position owned by a wallet, across all mints
+  async getWalletPositions(address: string): Promise<WalletData> {
+    this.ensureConnected();
+    if (!this.dca) {
+      throw new RpcUnavailableError('DCA SDK not initialized');
+    }
+
+    // getCurrentByUser filters on the user field server-side
+    const owner = parseAddress(address);
+    const accounts = await this.withRetry(() => this.dca.getCurrentByUser(owner));
+
+    const tokens: TrackedToken[] = [];
+    const accountsByToken: Record<string, TokenAccounts> = {};
+    accounts.forEach(acc => {
+      const { symbol, mint, isSell } = classifyAccount(acc, mint => this.symbolForMint(mint));
+
+      if (!accountsByToken[symbol]) {
+        tokens.push({ symbol, mint });
+        accountsByToken[symbol] = { buys: [], sells: [] };
+      }
+      accountsByToken[symbol][isSell ? 'sells' : 'buys'].push(acc);
+    });
+
+    const { positions, summary, warnings } = await this.processAccounts(accountsByToken, tokens);
+    return { positions, summary, warnings };
+  }
+
+  // Resolve decimals and prices, then derive the summary and positions
+  private async processAccounts(
+    accountsByToken: Record<string, TokenAccounts>,
+    tokens: TrackedToken[]
+  ): Promise<WalletData & { quotes: Record<string, PriceQuote> }> {
+    // Resolve decimals for every mint involved before touching amounts
+    const decimals = await this.mintDecimals.resolve(
+      Object.values(accountsByToken).flatMap(({ buys, sells }) => [...buys, ...sells]).flatMap(acc => [
+        acc.account.inputMint.toString(),
+        acc.account.outputMint.toString()
+      ])
+    );
+
+    // Counter assets (SOL, USDT, ...) need a symbol and a USD price too
+    const counterMints = Object.values(accountsByToken).flatMap(({ buys, sells }) => [
+      ...buys.map(acc => acc.account.inputMint.toString()),
+      ...sells.map(acc => acc.account.outputMint.toString())
+    ]);
+    await this.resolveSymbols(counterMints);
+
+    // Get all prices in one batch before calculating summary
+    const quotesByMint = await this.prices.getPrices([
+      ...new Set([...tokens.map(token => token.mint), ...counterMints])
+    ]);
+    const quotes: Record<string, PriceQuote> = Object.fromEntries(
+      tokens.map(token => [token.symbol, quotesByMint[token.mint]])
+    );
+
+    // Calculate summary with prices
+    const summary = this.calculateSummaryFromRawAccounts(accountsByToken, quotes, quotesByMint, decimals);
+
+    // Then process individual positions
+    const positions = Object.entries(accountsByToken).flatMap(([symbol, accounts]) => [
+      ...accounts.buys.map(acc => this.convertDCAAccount(acc, quotesByMint, symbol, "BUY", decimals)),
+      ...accounts.sells.map(acc => this.convertDCAAccount(acc, quotesByMint, symbol, "SELL", decimals))
+    ]);
+
+    Object.entries(summary).forEach(([symbol, tokenSummary]) => {
+      const tokenPositions = positions.filter(position => position.token === symbol);
+      tokenSummary.blocked = summarizeBlocked(tokenPositions);
+      tokenSummary.byCounterAsset = summarizeByCounterAsset(tokenPositions);
+    });
+
+    // Missing prices don't fail the fetch, but the USD figures leave those orders out
+    const fundingMints = Object.values(accountsByToken).flatMap(({ buys }) =>
+      buys.map(acc => acc.account.inputMint.toString())
+    );
+    const unpriced = new Set([
+      ...tokens.filter(token => quotesByMint[token.mint]?.price === null).map(token => token.symbol),
+      ...fundingMints.filter(mint => this.usdPrice(quotesByMint, mint) === undefined).map(mint => this.symbolForMint(mint))
+    ]);
+    const warnings = unpriced.size > 0
+      ? [new PriceUnavailableError([...unpriced]).toWarning()]
+      : [];
+
+    return { positions, summary, warnings, quotes: quotesByMint };
+  }
+
+  // Split accounts into buys (token is the output) and sells (token is the input)
+  private categorizeAccounts(
+    accounts: DCAAccountType[],
+    tokens: TrackedToken[]
+  ): Record<string, TokenAccounts> {
+    return Object.fromEntries(tokens.map(token => {
+      const mint = new PublicKey(token.mint);
+      return [token.symbol, {
+        buys: accounts.filter(acc => acc.account.outputMint.equals(mint)),
+        sells: accounts.filter(acc => acc.account.inputMint.equals(mint))
+      }];
+    }));
+  }
+
+  private calculateSummaryFromRawAccounts(
+    accountsByToken: Record<string, TokenAccounts>,
+    quotes: Record<string, PriceQuote>,
+    quotesByMint: Record<string, PriceQuote>,
+    decimals: Record<string, number>
+  ): Record<string, TokenSummary> {
+    const inputDecimals = (acc: DCAAccountType) => decimals[acc.account.inputMint.toString()];
+    const remaining = (acc: DCAAccountType) =>
+      toTokenAmount(acc.account.inDeposited.sub(acc.account.inWithdrawn), inputDecimals(acc));
+    const perCycle = (acc: DCAAccountType) =>
+      toTokenAmount(acc.account.inAmountPerCycle, inputDecimals(acc));
+    // Input not yet spent by the DCA, the same quantity as progress.amountRemaining
+    const queued = (acc: DCAAccountType) =>
+      computeProgress(acc.account, inputDecimals(acc)).amountRemaining;
+    // Undefined for funding assets with no quote, those buys are left out of the USD figures
+    const inputUSD = (acc: DCAAccountType) =>
+      this.usdPrice(quotesByMint, acc.account.inputMint.toString());
+
+    return Object.fromEntries(
+      Object.entries(accountsByToken).map(([symbol, { buys, sells }]) => {
+        const quote = quotes[symbol];
+        // No quote means no USD value for the sells, rather than $0
+        const price = quote.price ?? undefined;
+        const sellVolume = sumTokenAmounts(sells.map(remaining));
+        // Buys funded with different assets can't be summed as one token amount,
+        // so only their combined USD value is kept
+        const fundingMints = new Set(buys.map(acc => acc.account.inputMint.toString()));
+        const buyVolume = fundingMints.size <= 1 ? sumTokenAmounts(buys.map(remaining)) : undefined;
+        const pricedBuys = buys.flatMap(acc => {
+          const usd = inputUSD(acc);
+          return usd === undefined ? [] : [{ acc, usd }];
+        });
 
-    return summary;
+        return [symbol, {
+          buyOrders: buys.length,
+          sellOrders: sells.length,
+          buyVolume: buyVolume?.value,
+          sellVolume: sellVolume.value,
+          buyVolumeUSD: pricedBuys.reduce((sum, { acc, usd }) => sum + queued(acc).value * usd, 0),
+          buyVolumeUSDC: Math.round(pricedBuys.reduce((sum, { acc, usd }) => sum + perCycle(acc).value * usd, 0)),
+          unpricedBuys: buys.length - pricedBuys.length,
+          sellVolumeUSDC: price === undefined ? undefined : Math.round(sellVolume.value * price),
+          price: quote,
+          amounts: {
+            buyVolume,
+            sellVolume
+          },
+          leaderboard: buildLeaderboard([
+            ...pricedBuys.map(({ acc, usd }) => ({
+              owner: acc.account.user.toString(),
+              type: 'BUY' as const,
+              usdc: queued(acc).value * usd
+            })),
+            ...(price === undefined ? [] : sells.map(acc => ({
+              owner: acc.account.user.toString(),
+              type: 'SELL' as const,
+              usdc: queued(acc).value * price
+            })))
+          ])
+        }];
+      })
+    );
   }
 
   // ... rest of the code
@@ -0,0 +1,99 @@
+import { Connection, PublicKey, type AccountInfo } from '@solana/web3.js';
+import type { FeedStatus } from '../types/dca';
+import { DCAAccountFetcher, INPUT_MINT_OFFSET, OUTPUT_MINT_OFFSET } from './accounts';
+
+// Slots arrive roughly every 400ms, so a quiet socket this long is a dropped socket
+const STALE_AFTER = 15 * 1000;
+const HEARTBEAT_CHECK = 5 * 1000;
+
+type AccountChangeHandler = (publicKey: PublicKey, info: AccountInfo<Buffer>) => void;
+
+// Websocket subscriptions to DCA accounts touching the tracked mints, with a
+// slot heartbeat so callers know when to fall back to polling
+export class LiveAccountFeed {
+  private subscriptionIds: number[] = [];
+  private slotSubscriptionId?: number;
+  private heartbeatTimer?: ReturnType<typeof setInterval>;
+  private lastMessageAt = 0;
+  private status: FeedStatus = 'connecting';
+  private mints: string[] = [];
+  private onChange?: AccountChangeHandler;
+
+  constructor(
+    private connection: Connection,
+    private fetcher: DCAAccountFetcher,
+    private programId: PublicKey,
+    private onStatus: (status: FeedStatus) => void
+  ) {}
+
+  private setStatus(status: FeedStatus) {
+    if (status !== this.status) {
+      this.status = status;
+      this.onStatus(status);
+    }
+  }
+
+  private touch() {
+    this.lastMessageAt = Date.now();
+    this.setStatus('live');
+  }
+
+  start(mints: string[], onChange: AccountChangeHandler) {
+    this.stop();
+    this.mints = mints;
+    this.onChange = onChange;
+    this.onStatus(this.status);
+
+    [...new Set(mints)].forEach(mint => {
+      [INPUT_MINT_OFFSET, OUTPUT_MINT_OFFSET].forEach(offset => {
+        this.subscriptionIds.push(this.connection.onProgramAccountChange(
+          this.programId,
+          ({ accountId, accountInfo }) => {
+            this.touch();
+            onChange(accountId, accountInfo);
+          },
+          'confirmed',
+          this.fetcher.filtersFor(offset, mint)
+        ));
+      });
+    });
+
+    this.slotSubscriptionId = this.connection.onSlotChange(() => this.touch());
+
+    // Count from now so a socket that never connects also falls back
+    this.lastMessageAt = Date.now();
+    this.heartbeatTimer = setInterval(() => {
+      if (Date.now() - this.lastMessageAt > STALE_AFTER) {
+        this.setStatus('polling');
+      }
+    }, HEARTBEAT_CHECK);
+  }
+
+  // Move the subscriptions over to another endpoint after a failover
+  setConnection(connection: Connection) {
+    const { mints, onChange } = this;
+    this.stop();
+    this.connection = connection;
+    if (onChange) {
+      this.start(mints, onChange);
+    }
+  }
+
+  stop() {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
+    }
+    const logError = (error: unknown) => console.error('Failed to remove subscription:', error);
+    this.subscriptionIds.forEach(id => {
+      this.connection.removeProgramAccountChangeListener(id).catch(logError);
+    });
+    if (this.slotSubscriptionId !== undefined) {
+      this.connection.removeSlotChangeListener(this.slotSubscriptionId).catch(logError);
+      this.slotSubscriptionId = undefined;
+    }
+    this.subscriptionIds = [];
+    this.lastMessageAt = 0;
+    this.status = 'connecting';
+  }
+}
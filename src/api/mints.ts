@@ -0,0 +1,82 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+
+const STORAGE_KEY = 'open-dcas:mint-decimals';
+// SPL Token (and Token-2022) mint layout: the decimals byte follows
+// mintAuthority (4 + 32 bytes) and supply (8 bytes)
+const DECIMALS_OFFSET = 44;
+export const DEFAULT_DECIMALS = 6;
+// getMultipleAccountsInfo accepts at most 100 keys per call
+const BATCH_SIZE = 100;
+
+export const KNOWN_DECIMALS: Record<string, number> = {
+  EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v: 6, // USDC
+  Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB: 6, // USDT
+  So11111111111111111111111111111111111111112: 9 // wSOL
+};
+
+// Mint decimals never change, so resolved values are cached for good
+export class MintDecimalsCache {
+  private decimals: Record<string, number>;
+
+  constructor(private connection: Connection) {
+    this.decimals = { ...KNOWN_DECIMALS, ...this.load() };
+  }
+
+  private load(): Record<string, number> {
+    try {
+      const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error('Failed to load cached mint decimals:', error);
+      return {};
+    }
+  }
+
+  private persist() {
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.decimals));
+    }
+  }
+
+  setConnection(connection: Connection) {
+    this.connection = connection;
+  }
+
+  get(mint: string): number {
+    return this.decimals[mint] ?? DEFAULT_DECIMALS;
+  }
+
+  // Known decimals, e.g. from a recorded fixture; not persisted
+  seed(decimals: Record<string, number>) {
+    Object.assign(this.decimals, decimals);
+  }
+
+  has(mint: string): boolean {
+    return mint in this.decimals;
+  }
+
+  // Fetch decimals for every mint not already cached
+  async resolve(mints: string[]): Promise<Record<string, number>> {
+    const missing = [...new Set(mints)].filter(mint => !this.has(mint));
+
+    for (let i = 0; i < missing.length; i += BATCH_SIZE) {
+      const batch = missing.slice(i, i + BATCH_SIZE);
+      const infos = await this.connection.getMultipleAccountsInfo(
+        batch.map(mint => new PublicKey(mint))
+      );
+      infos.forEach((info, j) => {
+        if (info && info.data.length > DECIMALS_OFFSET) {
+          this.decimals[batch[j]] = info.data[DECIMALS_OFFSET];
+        } else {
+          console.warn(`Mint account not found for ${batch[j]}, assuming ${DEFAULT_DECIMALS} decimals`);
+        }
+      });
+    }
+
+    if (missing.length > 0) {
+      this.persist();
+    }
+
+    return Object.fromEntries(mints.map(mint => [mint, this.get(mint)]));
+  }
+}
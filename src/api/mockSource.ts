@@ -0,0 +1,145 @@
+import BN from 'bn.js';
+import type {
+  AccountTransaction,
+  ChartDataPoint,
+  ChartRange,
+  DCAData,
+  Fill,
+  Position,
+  PositionFills,
+  TokenSummary,
+  TrackedToken,
+  WalletData
+} from '../types/dca';
+import { mockChartData, mockPositions, mockSummaryData } from '../mocks/dcaData';
+import { tokenRegistry } from '../config/tokens';
+import { toTokenAmount } from '../utils/amounts';
+import { summarizeBlocked } from '../utils/priceBounds';
+import { buildLeaderboard } from '../utils/owners';
+import { summarizeByCounterAsset } from '../utils/value';
+import { positionSizeUSDC } from '../utils/positionFilters';
+import type { DCADataSource } from './dataSource';
+import { RANGE_DURATION } from './history';
+import { summarizeFills } from './fills';
+import { EmptyResultError } from './errors';
+
+const EMPTY_SUMMARY: TokenSummary = {
+  buyOrders: 0,
+  sellOrders: 0,
+  buyVolume: 0,
+  sellVolume: 0,
+  buyVolumeUSDC: 0,
+  sellVolumeUSDC: 0
+};
+
+const FILL_COUNT = 5;
+
+// Serves the fixtures in src/mocks so the dashboard runs without any network
+export class MockDCADataSource implements DCADataSource {
+  readonly name = 'mock';
+  readonly label = 'Mock data (offline)';
+
+  private summaryFor(symbol: string): TokenSummary {
+    return mockSummaryData[symbol as keyof typeof mockSummaryData] || EMPTY_SUMMARY;
+  }
+
+  async getChartHistory(
+    range: ChartRange,
+    tokens: TrackedToken[] = tokenRegistry.getTokens()
+  ): Promise<Record<string, ChartDataPoint[]>> {
+    const since = Date.now() - RANGE_DURATION[range];
+    return Object.fromEntries(tokens.map(token => [
+      token.symbol,
+      (mockChartData[token.symbol as keyof typeof mockChartData] || [])
+        .filter(point => point.timestamp >= since)
+    ]));
+  }
+
+  async getDCAAccounts(
+    tokens: TrackedToken[] = tokenRegistry.getTokens(),
+    range: ChartRange = '24h'
+  ): Promise<DCAData> {
+    const symbols = tokens.map(token => token.symbol);
+    const positions = mockPositions.filter(position => symbols.includes(position.token));
+    return {
+      positions,
+      summary: Object.fromEntries(symbols.map(symbol => {
+        const tokenPositions = positions.filter(position => position.token === symbol);
+        return [symbol, {
+          ...this.summaryFor(symbol),
+          blocked: summarizeBlocked(tokenPositions),
+          byCounterAsset: summarizeByCounterAsset(tokenPositions),
+          leaderboard: buildLeaderboard(tokenPositions.map(position => ({
+            owner: position.owner,
+            type: position.type,
+            usdc: positionSizeUSDC(position) ?? 0
+          })))
+        }];
+      })),
+      chartData: await this.getChartHistory(range, tokens)
+    };
+  }
+
+  async getWalletPositions(address: string): Promise<WalletData> {
+    const positions = mockPositions.filter(position => position.owner === address);
+    const summary: Record<string, TokenSummary> = {};
+    positions.forEach(position => {
+      const s = summary[position.token] || { ...EMPTY_SUMMARY };
+      if (position.type === 'BUY') {
+        s.buyOrders += 1;
+        s.buyVolume = (s.buyVolume ?? 0) + position.totalAmount;
+        s.buyVolumeUSDC += position.amountPerCycle;
+      } else {
+        s.sellOrders += 1;
+        s.sellVolume += position.totalAmount;
+        s.sellVolumeUSDC = (s.sellVolumeUSDC ?? 0) + position.totalAmount * (position.currentPrice || 0);
+      }
+      summary[position.token] = s;
+    });
+    return { positions, summary };
+  }
+
+  async getPosition(address: string): Promise<Position> {
+    const position = mockPositions.find(p => p.publicKey === address);
+    if (!position) {
+      throw new EmptyResultError(`No DCA account at ${address}, it may have been closed`);
+    }
+    return position;
+  }
+
+  // The mock fills are the only transactions the fixtures have
+  async getPositionTransactions(position: Position, limit = 20): Promise<AccountTransaction[]> {
+    const { fills } = await this.getPositionFills(position);
+    return fills.slice(0, limit).map((fill, i) => ({
+      signature: fill.signature,
+      timestamp: fill.timestamp,
+      slot: 300_000_000 - i * 1000,
+      failed: false
+    }));
+  }
+
+  // One fill per past cycle at a price drifting around the current one
+  async getPositionFills(position: Position): Promise<PositionFills> {
+    const price = position.currentPrice || 1;
+    const inUnits = new BN(Math.round(position.amountPerCycle * Math.pow(10, position.inputDecimals)));
+    const fills: Fill[] = Array.from({ length: FILL_COUNT }, (_, i) => {
+      const fillPrice = price * (1 + (i - FILL_COUNT / 2) * 0.01);
+      const out = position.type === 'BUY'
+        ? position.amountPerCycle / fillPrice
+        : position.amountPerCycle * fillPrice;
+      return {
+        signature: `mock-${position.id}-${i}`,
+        timestamp: position.lastUpdate - (i + 1) * position.cycleFrequency * 1000,
+        inAmount: toTokenAmount(inUnits, position.inputDecimals),
+        outAmount: toTokenAmount(
+          new BN(Math.round(out * Math.pow(10, position.outputDecimals))),
+          position.outputDecimals
+        ),
+        price: fillPrice
+      };
+    });
+    return summarizeFills(fills, position);
+  }
+}
+
+export const mockDCA = new MockDCADataSource();
@@ -0,0 +1,129 @@
+import type { PriceQuote } from '../types/dca';
+
+// A source of USD prices, queried for many mints at once
+export interface PriceProvider {
+  readonly name: string;
+  fetchPrices(mints: string[]): Promise<Record<string, number>>;
+}
+
+export class JupiterPriceProvider implements PriceProvider {
+  readonly name = 'jupiter';
+
+  constructor(private apiUrl = 'https://api.jup.ag/price/v2') {}
+
+  async fetchPrices(mints: string[]): Promise<Record<string, number>> {
+    const response = await fetch(`${this.apiUrl}?ids=${mints.join(',')}`);
+    if (!response.ok) {
+      throw new Error(`Jupiter price API returned ${response.status}`);
+    }
+    const data = await response.json();
+
+    const prices: Record<string, number> = {};
+    mints.forEach(mint => {
+      const price = Number(data.data?.[mint]?.price);
+      if (price > 0) {
+        prices[mint] = price;
+      }
+    });
+    return prices;
+  }
+}
+
+export class DexScreenerPriceProvider implements PriceProvider {
+  readonly name = 'dexscreener';
+
+  constructor(private apiUrl = 'https://api.dexscreener.com/tokens/v1/solana') {}
+
+  async fetchPrices(mints: string[]): Promise<Record<string, number>> {
+    const response = await fetch(`${this.apiUrl}/${mints.join(',')}`);
+    if (!response.ok) {
+      throw new Error(`DexScreener API returned ${response.status}`);
+    }
+    const pairs: { baseToken: { address: string }; priceUsd?: string; liquidity?: { usd?: number } }[] =
+      await response.json();
+
+    // Use the most liquid pair for each mint
+    const best: Record<string, { price: number; liquidity: number }> = {};
+    pairs.forEach(pair => {
+      const mint = pair.baseToken.address;
+      const price = Number(pair.priceUsd);
+      const liquidity = pair.liquidity?.usd || 0;
+      if (mints.includes(mint) && price > 0 && (!best[mint] || liquidity > best[mint].liquidity)) {
+        best[mint] = { price, liquidity };
+      }
+    });
+    return Object.fromEntries(Object.entries(best).map(([mint, { price }]) => [mint, price]));
+  }
+}
+
+// Fixed prices, for tests, offline runs and replaying a recorded provider under its own name
+export class StaticPriceProvider implements PriceProvider {
+  constructor(private prices: Record<string, number>, readonly name = 'static') {}
+
+  async fetchPrices(mints: string[]): Promise<Record<string, number>> {
+    return Object.fromEntries(
+      mints.filter(mint => mint in this.prices).map(mint => [mint, this.prices[mint]])
+    );
+  }
+}
+
+const DEFAULT_TTL = 30 * 1000;
+const STALE_AFTER = 5 * 60 * 1000;
+
+// Batches lookups across providers in priority order and caches the results.
+// A price that can't be refreshed is served from cache and flagged stale
+// rather than dropping to zero.
+export class PriceService {
+  private cache = new Map<string, PriceQuote>();
+
+  constructor(
+    private providers: PriceProvider[],
+    private ttl = DEFAULT_TTL,
+    private staleAfter = STALE_AFTER
+  ) {}
+
+  setProviders(providers: PriceProvider[]) {
+    this.providers = providers;
+    this.cache.clear();
+  }
+
+  async getPrices(mints: string[], now = Date.now()): Promise<Record<string, PriceQuote>> {
+    const unique = [...new Set(mints)];
+    let missing = unique.filter(mint => {
+      const cached = this.cache.get(mint);
+      return !cached || cached.price === null || now - cached.timestamp > this.ttl;
+    });
+
+    for (const provider of this.providers) {
+      if (missing.length === 0) {
+        break;
+      }
+      try {
+        const prices = await provider.fetchPrices(missing);
+        Object.entries(prices).forEach(([mint, price]) => {
+          this.cache.set(mint, { mint, price, source: provider.name, timestamp: now, stale: false });
+        });
+        missing = missing.filter(mint => !(mint in prices));
+      } catch (error) {
+        console.error(`Price provider ${provider.name} failed:`, error);
+      }
+    }
+
+    if (missing.length > 0) {
+      console.warn('No price available for:', missing);
+    }
+
+    return Object.fromEntries(unique.map(mint => {
+      const cached = this.cache.get(mint);
+      if (!cached) {
+        return [mint, { mint, price: null, source: 'none', timestamp: now, stale: true }];
+      }
+      return [mint, { ...cached, stale: missing.includes(mint) || now - cached.timestamp > this.staleAfter }];
+    }));
+  }
+}
+
+export const priceService = new PriceService([
+  new JupiterPriceProvider(),
+  new DexScreenerPriceProvider()
+]);
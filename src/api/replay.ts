@@ -0,0 +1,185 @@
+import { utils } from '@coral-xyz/anchor';
+import { Connection, PublicKey, type DataSlice, type GetProgramAccountsFilter } from '@solana/web3.js';
+import type {
+  AccountTransaction,
+  ChartRange,
+  DCAData,
+  DCAFixture,
+  FeedStatus,
+  OrderResult,
+  Position,
+  PositionBalances,
+  PositionDelta,
+  PositionFills,
+  TrackedToken
+} from '../types/dca';
+import type { Cluster } from '../config/cluster';
+import { tokenRegistry } from '../config/tokens';
+import { FIXTURE_VERSION, JupiterDCAAPI } from './jupiter';
+import { PriceService, StaticPriceProvider } from './prices';
+import { SnapshotHistory } from './history';
+import { BadRequestError } from './errors';
+
+// Never contacted, every RPC request is answered from the fixture
+const REPLAY_URL = 'http://replay.invalid';
+
+interface RpcRequest {
+  id: string | number;
+  method: string;
+  params?: unknown[];
+}
+
+// Check a fixture file before replaying it
+export const parseFixture = (text: string): DCAFixture => {
+  const fixture = JSON.parse(text) as DCAFixture;
+  if (fixture?.version !== FIXTURE_VERSION) {
+    throw new Error(`Unsupported fixture version: ${fixture?.version} (expected ${FIXTURE_VERSION})`);
+  }
+  if (!Array.isArray(fixture.accounts) || !Array.isArray(fixture.tokens) || !fixture.programId) {
+    throw new Error('Fixture is missing accounts, tokens or the program id');
+  }
+  return fixture;
+};
+
+const matchesFilter = (data: Buffer, filter: GetProgramAccountsFilter): boolean => {
+  if ('dataSize' in filter) {
+    return data.length === filter.dataSize;
+  }
+  const { offset, bytes } = filter.memcmp;
+  const expected = filter.memcmp.encoding === 'base64'
+    ? Buffer.from(bytes, 'base64')
+    : Buffer.from(utils.bytes.bs58.decode(bytes));
+  return data.subarray(offset, offset + expected.length).equals(expected);
+};
+
+// Answers getProgramAccounts, getAccountInfo and getMultipleAccounts from the recorded accounts,
+// applying filters and data slices like the RPC would. Any other method gets an error instead of
+// reaching the network.
+const replayFetch = (fixture: DCAFixture): typeof fetch => {
+  const accounts = fixture.accounts.map(account => ({ ...account, bytes: Buffer.from(account.data, 'base64') }));
+
+  const toAccountInfo = (account: (typeof accounts)[number], slice?: DataSlice) => ({
+    data: [
+      slice ? account.bytes.subarray(slice.offset, slice.offset + slice.length).toString('base64') : account.data,
+      'base64'
+    ],
+    executable: false,
+    // Only the data was recorded; nothing downstream reads lamports
+    lamports: 0,
+    owner: fixture.programId,
+    rentEpoch: 0,
+    space: account.bytes.length
+  });
+  const find = (pubkey: unknown) => {
+    const account = accounts.find(a => a.pubkey === pubkey);
+    return account ? toAccountInfo(account) : null;
+  };
+
+  const answer = ({ id, method, params = [] }: RpcRequest) => {
+    if (method === 'getAccountInfo') {
+      return { jsonrpc: '2.0', id, result: { context: { slot: 0 }, value: find(params[0]) } };
+    }
+    if (method === 'getMultipleAccounts') {
+      return { jsonrpc: '2.0', id, result: { context: { slot: 0 }, value: (params[0] as string[]).map(find) } };
+    }
+    if (method !== 'getProgramAccounts') {
+      return { jsonrpc: '2.0', id, error: { code: -32601, message: `${method} isn't part of the replayed fixture` } };
+    }
+    const [programId, config] = params as [
+      string,
+      { filters?: GetProgramAccountsFilter[]; dataSlice?: DataSlice } | undefined
+    ];
+    const filters = config?.filters ?? [];
+    const result = programId !== fixture.programId ? [] : accounts
+      .filter(account => filters.every(filter => matchesFilter(account.bytes, filter)))
+      .map(account => ({ pubkey: account.pubkey, account: toAccountInfo(account, config?.dataSlice) }));
+    return { jsonrpc: '2.0', id, result };
+  };
+
+  return async (_input, init) => {
+    const body: RpcRequest | RpcRequest[] = JSON.parse(String(init?.body));
+    const response = Array.isArray(body) ? body.map(answer) : answer(body);
+    return new Response(JSON.stringify(response), { status: 200, headers: { 'Content-Type': 'application/json' } });
+  };
+};
+
+// Plays a recorded fixture back through the same pipeline as the live source,
+// so a summary computed from it matches the one computed when it was recorded
+export class ReplayDCAAPI extends JupiterDCAAPI {
+  readonly name = 'replay';
+  readonly label: string;
+  // There's no chain behind a recording to send transactions to
+  readonly readOnly = true;
+  private attached = false;
+
+  constructor(private fixture: DCAFixture) {
+    super(
+      new PriceService(
+        Object.entries(fixture.prices).map(([source, prices]) => new StaticPriceProvider(prices, source))
+      ),
+      { cluster: fixture.cluster as Cluster, rpcUrls: [REPLAY_URL], programId: new PublicKey(fixture.programId) },
+      // Keep replayed snapshots out of the real history
+      new SnapshotHistory(false)
+    );
+    this.label = `Replay (${new Date(fixture.recordedAt).toLocaleString()})`;
+  }
+
+  // The fixture's symbols stay with this instance, the live source never sees them
+  protected symbolForMint(mint: string): string {
+    return this.fixture.symbols[mint] ?? tokenRegistry.symbolForMint(mint);
+  }
+
+  // Everything was resolved when the fixture was recorded
+  protected async resolveSymbols(): Promise<void> {}
+
+  protected ensureConnected() {
+    if (!this.attached) {
+      this.attached = true;
+      this.attach(new Connection(REPLAY_URL, { commitment: 'confirmed', fetch: replayFetch(this.fixture) }));
+      this.mintDecimals.seed(this.fixture.decimals);
+    }
+  }
+
+  get recordedAt(): number {
+    return this.fixture.recordedAt;
+  }
+
+  get recordedTokens(): TrackedToken[] {
+    return this.fixture.tokens;
+  }
+
+  // Defaults to the tokens that were tracked when the fixture was recorded
+  getDCAAccounts(tokens: TrackedToken[] = this.fixture.tokens, range?: ChartRange): Promise<DCAData> {
+    return super.getDCAAccounts(tokens, range);
+  }
+
+  async getPositionFills(position: Position): Promise<PositionFills> {
+    throw new BadRequestError(`Fill history for ${position.publicKey} isn't part of the replayed fixture`);
+  }
+
+  async getPositionTransactions(position: Position): Promise<AccountTransaction[]> {
+    throw new BadRequestError(`Transactions for ${position.publicKey} aren't part of the replayed fixture`);
+  }
+
+  async getPositionBalances(): Promise<PositionBalances> {
+    throw new BadRequestError('A replay is read-only, token balances aren\'t part of the fixture');
+  }
+
+  async createOrder(): Promise<OrderResult> {
+    throw new BadRequestError('A replay is read-only, switch to a live source to create orders');
+  }
+
+  async managePosition(): Promise<string> {
+    throw new BadRequestError('A replay is read-only, switch to a live source to manage positions');
+  }
+
+  // Nothing changes in a recording
+  subscribe(
+    _tokens: TrackedToken[],
+    _onDelta: (delta: PositionDelta) => void,
+    onStatus: (status: FeedStatus) => void
+  ): () => void {
+    onStatus('polling');
+    return () => {};
+  }
+}
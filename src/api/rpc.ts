@@ -0,0 +1,150 @@
+import { Connection } from '@solana/web3.js';
+import { isRateLimitError } from './errors';
+
+const HEALTH_CHECK_INTERVAL = 60 * 1000;
+const HEALTH_CHECK_TIMEOUT = 5 * 1000;
+// Cooldown after a failure doubles per consecutive failure, up to the max
+const BASE_COOLDOWN = 10 * 1000;
+const MAX_COOLDOWN = 5 * 60 * 1000;
+
+export interface RpcEndpointState {
+  url: string;
+  healthy: boolean;
+  rateLimited: boolean;
+  failures: number;
+  cooldownUntil: number;
+  latency?: number;
+}
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> =>
+  Promise.race([
+    promise,
+    new Promise<T>((_, reject) => setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms))
+  ]);
+
+// A prioritized list of RPC endpoints. The first one that isn't cooling down
+// after a failure is active; listeners hear about every switch.
+export class RpcPool {
+  private endpoints: RpcEndpointState[];
+  private connections = new Map<string, Connection>();
+  private activeUrl: string;
+  private listeners = new Set<(connection: Connection, url: string) => void>();
+  private healthTimer?: ReturnType<typeof setInterval>;
+
+  constructor(urls: string[]) {
+    if (urls.length === 0) {
+      throw new Error('At least one RPC endpoint is required');
+    }
+    this.endpoints = urls.map(url => ({
+      url,
+      healthy: true,
+      rateLimited: false,
+      failures: 0,
+      cooldownUntil: 0
+    }));
+    this.activeUrl = urls[0];
+  }
+
+  private connectionFor(url: string): Connection {
+    let connection = this.connections.get(url);
+    if (!connection) {
+      connection = new Connection(url, 'confirmed');
+      this.connections.set(url, connection);
+    }
+    return connection;
+  }
+
+  private active(): RpcEndpointState {
+    return this.endpoints.find(endpoint => endpoint.url === this.activeUrl)!;
+  }
+
+  get connection(): Connection {
+    return this.connectionFor(this.activeUrl);
+  }
+
+  get url(): string {
+    return this.activeUrl;
+  }
+
+  getStates(): RpcEndpointState[] {
+    return this.endpoints.map(endpoint => ({ ...endpoint }));
+  }
+
+  // Switch to the highest priority endpoint that is available. When all of them
+  // are cooling down, use the one that recovers first. Returns true on a switch.
+  pick(now = Date.now()): boolean {
+    const available = this.endpoints.find(endpoint => endpoint.cooldownUntil <= now);
+    const next = available ?? [...this.endpoints].sort((a, b) => a.cooldownUntil - b.cooldownUntil)[0];
+    if (next.url === this.activeUrl) {
+      return false;
+    }
+    console.warn(`Switching RPC endpoint to ${next.url}`);
+    this.activeUrl = next.url;
+    const connection = this.connection;
+    this.listeners.forEach(listener => listener(connection, next.url));
+    return true;
+  }
+
+  reportSuccess() {
+    const endpoint = this.active();
+    endpoint.healthy = true;
+    endpoint.rateLimited = false;
+    endpoint.failures = 0;
+  }
+
+  // Put the active endpoint on cooldown and fail over. Returns true when a
+  // different endpoint took over.
+  reportFailure(error: unknown, now = Date.now()): boolean {
+    this.markFailed(this.active(), error, now);
+    return this.pick(now);
+  }
+
+  private markFailed(endpoint: RpcEndpointState, error: unknown, now: number) {
+    endpoint.failures += 1;
+    endpoint.healthy = false;
+    endpoint.rateLimited = isRateLimitError(error);
+    endpoint.cooldownUntil = now + Math.min(BASE_COOLDOWN * 2 ** (endpoint.failures - 1), MAX_COOLDOWN);
+  }
+
+  // Probe every endpoint so a recovered higher priority one gets picked back up
+  async checkHealth(now = Date.now()): Promise<RpcEndpointState[]> {
+    await Promise.all(this.endpoints.map(async endpoint => {
+      const started = Date.now();
+      try {
+        await withTimeout(this.connectionFor(endpoint.url).getSlot(), HEALTH_CHECK_TIMEOUT);
+        endpoint.latency = Date.now() - started;
+        endpoint.healthy = true;
+        endpoint.rateLimited = false;
+        endpoint.failures = 0;
+        endpoint.cooldownUntil = 0;
+      } catch (error) {
+        console.warn(`RPC health check failed for ${endpoint.url}:`, error);
+        this.markFailed(endpoint, error, now);
+      }
+    }));
+    this.pick(now);
+    return this.getStates();
+  }
+
+  startHealthChecks(interval = HEALTH_CHECK_INTERVAL) {
+    this.stopHealthChecks();
+    // Nothing to fail over to with a single endpoint
+    if (this.endpoints.length > 1) {
+      this.healthTimer = setInterval(() => this.checkHealth(), interval);
+    }
+  }
+
+  stopHealthChecks() {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = undefined;
+    }
+  }
+
+  onChange(listener: (connection: Connection, url: string) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
@@ -0,0 +1,89 @@
+import { Connection, Keypair, PublicKey, Transaction } from '@solana/web3.js';
+import type { TxStatus } from '../types/dca';
+
+// Anything that can sign for a wallet: a browser extension, or a local
+// keypair when testing against a local validator
+export interface TransactionSigner {
+  readonly publicKey: PublicKey;
+  readonly label: string;
+  signTransaction(tx: Transaction): Promise<Transaction>;
+}
+
+export class KeypairSigner implements TransactionSigner {
+  readonly label = 'Local keypair';
+
+  constructor(private keypair: Keypair) {}
+
+  // Accepts the JSON array format written by `solana-keygen`
+  static fromSecretKey(secretKey: Uint8Array | number[]): KeypairSigner {
+    return new KeypairSigner(Keypair.fromSecretKey(Uint8Array.from(secretKey)));
+  }
+
+  get publicKey(): PublicKey {
+    return this.keypair.publicKey;
+  }
+
+  async signTransaction(tx: Transaction): Promise<Transaction> {
+    tx.partialSign(this.keypair);
+    return tx;
+  }
+}
+
+// The provider Phantom, Solflare, Backpack and friends inject as window.solana
+export interface InjectedProvider {
+  publicKey: PublicKey | null;
+  isPhantom?: boolean;
+  connect(): Promise<{ publicKey: PublicKey }>;
+  disconnect(): Promise<void>;
+  signTransaction(tx: Transaction): Promise<Transaction>;
+}
+
+export const getInjectedProvider = (): InjectedProvider | undefined =>
+  typeof window !== 'undefined'
+    ? (window as unknown as { solana?: InjectedProvider }).solana
+    : undefined;
+
+export class InjectedWalletSigner implements TransactionSigner {
+  constructor(private provider: InjectedProvider, readonly publicKey: PublicKey) {}
+
+  get label(): string {
+    return this.provider.isPhantom ? 'Phantom' : 'Browser wallet';
+  }
+
+  signTransaction(tx: Transaction): Promise<Transaction> {
+    return this.provider.signTransaction(tx);
+  }
+}
+
+// Sign with the wallet as fee payer, send, and wait for confirmation
+export const sendWithSigner = async (
+  connection: Connection,
+  signer: TransactionSigner,
+  tx: Transaction,
+  onStatus: (status: TxStatus, signature?: string) => void = () => {}
+): Promise<string> => {
+  let signature: string | undefined;
+  try {
+    const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+    tx.feePayer = signer.publicKey;
+    tx.recentBlockhash = blockhash;
+
+    onStatus('signing');
+    const signed = await signer.signTransaction(tx);
+
+    onStatus('sending');
+    signature = await connection.sendRawTransaction(signed.serialize());
+
+    onStatus('confirming', signature);
+    const { value } = await connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed');
+    if (value.err) {
+      throw new Error(`Transaction failed: ${JSON.stringify(value.err)}`);
+    }
+
+    onStatus('confirmed', signature);
+    return signature;
+  } catch (error) {
+    onStatus('failed', signature);
+    throw error;
+  }
+};
@@ -0,0 +1,49 @@
+import { getInjectedProvider, InjectedWalletSigner, type TransactionSigner } from './signer';
+
+// The connected wallet, shared by every component that signs
+class WalletConnection {
+  private signer: TransactionSigner | null = null;
+  private listeners = new Set<(signer: TransactionSigner | null) => void>();
+
+  get current(): TransactionSigner | null {
+    return this.signer;
+  }
+
+  isAvailable(): boolean {
+    return !!getInjectedProvider();
+  }
+
+  async connect(): Promise<TransactionSigner> {
+    const provider = getInjectedProvider();
+    if (!provider) {
+      throw new Error('No Solana wallet found. Install Phantom or another wallet extension.');
+    }
+    const { publicKey } = await provider.connect();
+    this.set(new InjectedWalletSigner(provider, publicKey));
+    return this.signer!;
+  }
+
+  // Plug in any signer directly, e.g. a KeypairSigner in tests
+  use(signer: TransactionSigner | null) {
+    this.set(signer);
+  }
+
+  async disconnect() {
+    await getInjectedProvider()?.disconnect().catch(error => console.error('Failed to disconnect wallet:', error));
+    this.set(null);
+  }
+
+  private set(signer: TransactionSigner | null) {
+    this.signer = signer;
+    this.listeners.forEach(listener => listener(signer));
+  }
+
+  subscribe(listener: (signer: TransactionSigner | null) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const wallet = new WalletConnection();
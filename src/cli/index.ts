@@ -0,0 +1,220 @@
+// Headless entry point, run with `npm run cli -- <command> [options]`
+import { readFile, writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import type { OrderRequest, Position, TokenSummary, TrackedToken } from '../types/dca';
+import { parseTokenList } from '../config/tokens';
+import { DCAError, describeError } from '../api/errors';
+import { KeypairSigner } from '../api/signer';
+import { previewSchedule, validateOrder } from '../utils/orders';
+import type { DCADataSource } from '../api/dataSource';
+import { appendSnapshots } from './snapshotFile';
+import { createSource } from './source';
+
+const DEFAULT_INTERVAL = 300;
+const DEFAULT_SNAPSHOT_FILE = 'snapshots.jsonl';
+const DEFAULT_FIXTURE_FILE = 'fixture.json';
+
+const USAGE = `Usage: npm run cli -- <command> [options]
+
+Commands:
+  summary               Print the current buy/sell summary per token
+  positions             Dump positions as JSON
+  snapshot              Append summary snapshots to a JSONL file on a schedule
+  order                 Open a DCA order signed by a local keypair
+  record                Fetch once and save the raw accounts and prices as a replayable fixture
+
+Options:
+  --source <name>       jupiter (default) or mock
+  --fixture <file>      replay a recorded fixture instead of reading the chain
+  --tokens <list>       SYMBOL:mint pairs, defaults to VITE_TRACKED_TOKENS (or the fixture's)
+  --rpc <urls>          comma separated RPC endpoints, overrides VITE_RPC_URLS
+  --cluster <name>      mainnet-beta, devnet or localnet
+  --json                summary: print JSON instead of a table
+  --token <symbol>      positions: only this token
+  --owner <address>     positions: only this wallet
+  --out <file>          positions: write to a file; snapshot: file to append to (default ${DEFAULT_SNAPSHOT_FILE});
+                        record: fixture file (default ${DEFAULT_FIXTURE_FILE})
+  --interval <seconds>  snapshot: time between snapshots (default ${DEFAULT_INTERVAL})
+  --once                snapshot: take a single snapshot and exit
+  --keypair <file>      order: solana-keygen JSON keypair that signs and pays
+  --input <mint>        order: mint to spend
+  --output <mint>       order: mint to buy
+  --total <amount>      order: total input amount
+  --per-cycle <amount>  order: input amount per cycle
+  --every <seconds>     order: seconds between cycles
+  --min-price <price>   order: optional, in input per output
+  --max-price <price>   order: optional, in input per output
+`;
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    source: { type: 'string', default: 'jupiter' },
+    fixture: { type: 'string' },
+    tokens: { type: 'string' },
+    rpc: { type: 'string' },
+    cluster: { type: 'string' },
+    json: { type: 'boolean', default: false },
+    token: { type: 'string' },
+    owner: { type: 'string' },
+    out: { type: 'string' },
+    interval: { type: 'string' },
+    once: { type: 'boolean', default: false },
+    keypair: { type: 'string' },
+    input: { type: 'string' },
+    output: { type: 'string' },
+    total: { type: 'string' },
+    'per-cycle': { type: 'string' },
+    every: { type: 'string' },
+    'min-price': { type: 'string' },
+    'max-price': { type: 'string' },
+    help: { type: 'boolean', short: 'h', default: false }
+  }
+});
+
+// Undefined lets the source pick its default: the registry, or a fixture's own tokens
+const trackedTokens = (): TrackedToken[] | undefined =>
+  values.tokens ? parseTokenList(values.tokens) : undefined;
+
+const summaryRows = (summary: Record<string, TokenSummary>) =>
+  Object.entries(summary).map(([token, s]) => ({
+    token,
+    price: s.price?.price ?? null,
+    buyOrders: s.buyOrders,
+    sellOrders: s.sellOrders,
+    buyVolumeUSDC: s.buyVolumeUSDC,
+    sellVolumeUSDC: s.sellVolumeUSDC ?? null,
+    blockedOrders: s.blocked?.orders ?? 0,
+    wallets: s.leaderboard?.owners ?? 0
+  }));
+
+const printSummary = async (source: DCADataSource) => {
+  const data = await source.getDCAAccounts(trackedTokens());
+  if (values.json) {
+    console.log(JSON.stringify(data.summary, null, 2));
+  } else {
+    console.table(summaryRows(data.summary));
+  }
+  data.warnings?.forEach(warning => console.error(`Warning: ${warning.message}`));
+};
+
+const dumpPositions = async (source: DCADataSource) => {
+  const data = values.owner
+    ? await source.getWalletPositions(values.owner)
+    : await source.getDCAAccounts(trackedTokens());
+  const positions = data.positions.filter((position: Position) =>
+    !values.token || position.token === values.token.toUpperCase()
+  );
+  const json = JSON.stringify(positions, null, 2);
+  if (values.out) {
+    await writeFile(values.out, json + '\n');
+    console.error(`Wrote ${positions.length} positions to ${values.out}`);
+  } else {
+    console.log(json);
+  }
+};
+
+const runSnapshots = async (source: DCADataSource) => {
+  const file = values.out ?? DEFAULT_SNAPSHOT_FILE;
+  const interval = Number(values.interval ?? DEFAULT_INTERVAL) * 1000;
+  if (!Number.isFinite(interval) || interval <= 0) {
+    throw new Error(`Invalid interval: ${values.interval}`);
+  }
+
+  const takeSnapshot = async () => {
+    try {
+      const timestamp = Date.now();
+      const data = await source.getDCAAccounts(trackedTokens());
+      const rows = await appendSnapshots(file, data.summary, timestamp);
+      console.error(`${new Date(timestamp).toISOString()} wrote ${rows} snapshots to ${file}`);
+    } catch (error) {
+      // Keep the schedule going, the next run may succeed
+      console.error(`${new Date().toISOString()} snapshot failed: ${describeError(error)}`, error);
+    }
+  };
+
+  await takeSnapshot();
+  if (values.once) {
+    return;
+  }
+
+  const timer = setInterval(takeSnapshot, interval);
+  await new Promise<void>(resolve => {
+    process.once('SIGINT', () => {
+      clearInterval(timer);
+      resolve();
+    });
+  });
+};
+
+const createOrder = async (source: DCADataSource) => {
+  if (!source.createOrder || source.readOnly) {
+    throw new Error(`${source.label} can't create orders`);
+  }
+  if (!values.keypair) {
+    throw new Error('--keypair is required');
+  }
+  const signer = KeypairSigner.fromSecretKey(JSON.parse(await readFile(values.keypair, 'utf8')));
+  const optional = (value?: string) => (value === undefined ? undefined : Number(value));
+  const order: OrderRequest = {
+    inputMint: values.input ?? '',
+    outputMint: values.output ?? '',
+    totalAmount: values.total ?? '',
+    amountPerCycle: values['per-cycle'] ?? '',
+    cycleFrequency: Number(values.every),
+    priceRange: { min: optional(values['min-price']), max: optional(values['max-price']) }
+  };
+
+  const errors = Object.entries(validateOrder(order));
+  if (errors.length > 0) {
+    throw new Error(errors.map(([field, message]) => `${field}: ${message}`).join('\n'));
+  }
+  const preview = previewSchedule(order);
+  console.error(`${preview.cycles} cycles, completing ${new Date(preview.completesAt).toISOString()}`);
+
+  const result = await source.createOrder(order, signer, status => console.error(`Transaction ${status}`));
+  console.log(JSON.stringify(result, null, 2));
+};
+
+const recordFixture = async (source: DCADataSource) => {
+  if (!source.exportFixture) {
+    throw new Error(`${source.label} can't record fixtures`);
+  }
+  const file = values.out ?? DEFAULT_FIXTURE_FILE;
+  await source.getDCAAccounts(trackedTokens());
+  const fixture = source.exportFixture();
+  await writeFile(file, JSON.stringify(fixture, null, 2) + '\n');
+  const prices = Object.values(fixture.prices).reduce((sum, byMint) => sum + Object.keys(byMint).length, 0);
+  console.error(`Recorded ${fixture.accounts.length} accounts and ${prices} prices to ${file}`);
+};
+
+const COMMANDS: Record<string, (source: DCADataSource) => Promise<void>> = {
+  summary: printSummary,
+  positions: dumpPositions,
+  snapshot: runSnapshots,
+  order: createOrder,
+  record: recordFixture
+};
+
+const main = async () => {
+  const command = COMMANDS[positionals[0]];
+  if (values.help || !command) {
+    console.log(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+
+  try {
+    await command(createSource(values));
+    // RPC health checks keep timers alive, so exit explicitly
+    process.exit(0);
+  } catch (error) {
+    if (error instanceof DCAError) {
+      console.error(`Error: ${describeError(error)}`, error);
+    } else {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    }
+    process.exit(1);
+  }
+};
+
+main();
@@ -0,0 +1,16 @@
+import { appendFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { TokenSummary } from '../types/dca';
+import { toSnapshots } from '../api/history';
+
+// Append one JSON line per token, the same rows the browser keeps in IndexedDB
+export const appendSnapshots = async (
+  file: string,
+  summary: Record<string, TokenSummary>,
+  timestamp = Date.now()
+): Promise<number> => {
+  const snapshots = toSnapshots(summary, timestamp);
+  await mkdir(dirname(file), { recursive: true });
+  await appendFile(file, snapshots.map(snapshot => JSON.stringify(snapshot)).join('\n') + '\n');
+  return snapshots.length;
+};
@@ -0,0 +1,39 @@
+import { readFileSync } from 'node:fs';
+import { env } from '../config/env';
+import { loadClusterConfig } from '../config/cluster';
+import { JupiterDCAAPI } from '../api/jupiter';
+import { mockDCA } from '../api/mockSource';
+import { priceService } from '../api/prices';
+import { parseFixture, ReplayDCAAPI } from '../api/replay';
+import type { DCADataSource } from '../api/dataSource';
+
+export interface SourceOptions {
+  source?: string;
+  rpc?: string;
+  cluster?: string;
+  // Path to a recorded fixture to replay instead of reading the chain
+  fixture?: string;
+}
+
+// Build a source from flags rather than the browser's saved selection
+export const createSource = ({ source = 'jupiter', rpc, cluster, fixture }: SourceOptions): DCADataSource => {
+  // A fixture always replays, whatever --source says
+  if (fixture) {
+    const replay = new ReplayDCAAPI(parseFixture(readFileSync(fixture, 'utf8')));
+    console.error(`Replaying ${fixture}, recorded ${new Date(replay.recordedAt).toISOString()}`);
+    return replay;
+  }
+  if (source === 'mock') {
+    return mockDCA;
+  }
+  if (source !== 'jupiter') {
+    throw new Error(`Unknown source: ${source}`);
+  }
+  const config = loadClusterConfig({
+    ...env,
+    VITE_RPC_URLS: rpc ?? env.VITE_RPC_URLS,
+    VITE_CLUSTER: cluster ?? env.VITE_CLUSTER
+  });
+  console.error(`Reading ${config.cluster} via ${config.rpcUrls.join(', ')}`);
+  return new JupiterDCAAPI(priceService, config);
+};
@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { tokenRegistry } from '../config/tokens';
+
+export const AddTokenForm: React.FC = () => {
+  const [mint, setMint] = useState('');
+  const [symbol, setSymbol] = useState('');
+  const [adding, setAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setAdding(true);
+    setError(null);
+    try {
+      await tokenRegistry.addToken(mint, symbol || undefined);
+      setMint('');
+      setSymbol('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add token');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="bg-[#1a1a1a] p-3 sm:p-4 mb-3 sm:mb-5 rounded-lg flex flex-col sm:flex-row gap-2 sm:items-center"
+    >
+      <input
+        type="text"
+        value={mint}
+        onChange={(e) => setMint(e.target.value)}
+        placeholder="Token mint address"
+        className="flex-1 bg-[#2a2a2a] px-3 py-1 sm:py-2 rounded text-sm sm:text-base"
+      />
+      <input
+        type="text"
+        value={symbol}
+        onChange={(e) => setSymbol(e.target.value)}
+        placeholder="Symbol (optional)"
+        className="sm:w-40 bg-[#2a2a2a] px-3 py-1 sm:py-2 rounded text-sm sm:text-base"
+      />
+      <button
+        type="submit"
+        disabled={adding || !mint}
+        className="bg-[#3a3a3a] px-3 py-1 sm:px-4 sm:py-2 rounded hover:bg-[#4a4a4a] disabled:opacity-50 text-sm sm:text-base"
+      >
+        {adding ? 'Adding...' : 'Add Token'}
+      </button>
+      {error && <span className="text-red-500 text-sm">{error}</span>}
+    </form>
+  );
+};
@@ -0,0 +1,35 @@
+import React from 'react';
+import type { TokenAmount } from '../types/dca';
+import { formatTokenAmount } from '../utils/amounts';
+
+interface AmountProps {
+  value: number;
+  amount?: TokenAmount;
+  maximumFractionDigits?: number;
+}
+
+// Renders a token amount, marking values that lost precision on the way
+// from on-chain integers to JS numbers
+export const Amount: React.FC<AmountProps> = ({ value, amount, maximumFractionDigits = 2 }) => {
+  if (!amount) {
+    return <>{value.toLocaleString(undefined, { maximumFractionDigits })}</>;
+  }
+
+  if (amount.unsafe) {
+    return (
+      <span title="Too large to represent as a number, showing the exact on-chain value">
+        {formatTokenAmount(amount)} <span className="text-yellow-500">⚠</span>
+      </span>
+    );
+  }
+
+  if (amount.rounded) {
+    return (
+      <span title={`Rounded, exact value: ${amount.exact}`}>
+        ≈{formatTokenAmount(amount, maximumFractionDigits)}
+      </span>
+    );
+  }
+
+  return <span title={amount.exact}>{formatTokenAmount(amount, maximumFractionDigits)}</span>;
+};
@@ -0,0 +1,252 @@
+import React, { useMemo, useState } from 'react';
+import { Line } from 'react-chartjs-2';
+import type { BacktestResult, DCAOrder, PricePoint, TokenInfo, TrackedToken } from '../types/dca';
+import { KNOWN_TOKENS, tokenRegistry } from '../config/tokens';
+import { DEFAULT_DECIMALS, KNOWN_DECIMALS } from '../api/mints';
+import { parsePriceSeries } from '../utils/priceSeries';
+import { runBacktest } from '../utils/backtest';
+import { chartOptions } from './chartConfig';
+
+const FREQUENCIES: DCAOrder['frequency'][] = ['hourly', 'daily', 'weekly'];
+// Shown until a token is tracked
+const UNKNOWN_TOKEN: TrackedToken = { symbol: 'TOKEN', mint: '' };
+
+const inputClass = 'bg-[#2a2a2a] px-3 py-1 sm:py-2 rounded text-sm sm:text-base w-full';
+
+const optionalNumber = (value: string) => (value.trim() ? Number(value) : undefined);
+
+const toTokenInfo = (token: TrackedToken): TokenInfo => ({
+  address: token.mint,
+  symbol: token.symbol,
+  decimals: KNOWN_DECIMALS[token.mint] ?? DEFAULT_DECIMALS
+});
+
+const formatNumber = (value: number, digits = 4) =>
+  value.toLocaleString(undefined, { maximumFractionDigits: digits });
+
+// Green when the DCA came out ahead of the lump sum
+const compareClass = (dca: number, lumpSum: number) => (dca >= lumpSum ? 'text-green-500' : 'text-red-500');
+
+export const BacktestPanel: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  const [series, setSeries] = useState<PricePoint[]>([]);
+  const [fileName, setFileName] = useState('');
+  const [inputMint, setInputMint] = useState(KNOWN_TOKENS[0].mint);
+  const [outputMint, setOutputMint] = useState(tokenRegistry.getTokens()[0]?.mint ?? '');
+  const [amount, setAmount] = useState('100');
+  const [frequency, setFrequency] = useState<DCAOrder['frequency']>('daily');
+  const [durationDays, setDurationDays] = useState('30');
+  const [startDate, setStartDate] = useState('');
+  const [minPrice, setMinPrice] = useState('');
+  const [maxPrice, setMaxPrice] = useState('');
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const tokenOptions = useMemo(() => [...KNOWN_TOKENS, ...tokenRegistry.getTokens()], []);
+  const inputToken = tokenOptions.find(token => token.mint === inputMint) ?? KNOWN_TOKENS[0];
+  const outputToken = tokenOptions.find(token => token.mint === outputMint) ?? UNKNOWN_TOKEN;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) {
+      return;
+    }
+    setLoadError(null);
+    try {
+      const points = parsePriceSeries(await file.text(), file.name);
+      setSeries(points);
+      setFileName(file.name);
+    } catch (err) {
+      console.error('Failed to parse price series:', err);
+      setSeries([]);
+      setLoadError(err instanceof Error ? err.message : 'Failed to read the file');
+    }
+  };
+
+  // Re-run on every change, it's cheap even for a few thousand prices
+  const outcome = useMemo((): { result?: BacktestResult; error?: string } => {
+    if (!series.length) {
+      return {};
+    }
+    try {
+      return {
+        result: runBacktest(series, {
+          inputToken: toTokenInfo(inputToken),
+          outputToken: toTokenInfo(outputToken),
+          amount: Number(amount),
+          frequency,
+          durationDays: Number(durationDays),
+          startAt: startDate ? Date.parse(startDate) : undefined,
+          priceRange: { min: optionalNumber(minPrice), max: optionalNumber(maxPrice) }
+        })
+      };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : 'Backtest failed' };
+    }
+  }, [series, inputToken, outputToken, amount, frequency, durationDays, startDate, minPrice, maxPrice]);
+
+  if (!open) {
+    return (
+      <button
+        className="bg-[#1a1a1a] p-3 sm:p-4 mb-3 sm:mb-5 rounded-lg w-full text-left hover:bg-[#222] text-sm sm:text-base"
+        onClick={() => setOpen(true)}
+      >
+        + Backtest a DCA schedule
+      </button>
+    );
+  }
+
+  const result = outcome.result;
+  const priceUnit = `${inputToken.symbol} per ${outputToken.symbol}`;
+
+  const chartData = result && {
+    labels: result.executions.map(execution => new Date(execution.timestamp).toLocaleDateString()),
+    datasets: [
+      {
+        label: `Price (${priceUnit})`,
+        data: result.executions.map(execution => execution.price),
+        borderColor: '#9e9e9e',
+        // Mark the cycles the price range skipped
+        pointRadius: result.executions.map(execution => (execution.skipped ? 3 : 0)),
+        pointBackgroundColor: '#FFC107',
+        borderWidth: 1
+      },
+      {
+        label: 'DCA average entry',
+        data: result.executions.map(execution =>
+          execution.totalAcquired > 0 ? execution.totalSpent / execution.totalAcquired : null
+        ),
+        borderColor: '#4CAF50',
+        pointRadius: 0,
+        borderWidth: 2
+      },
+      {
+        label: 'Lump-sum entry',
+        data: result.executions.map(() => result.lumpSum.price),
+        borderColor: '#2196F3',
+        borderDash: [6, 4],
+        pointRadius: 0,
+        borderWidth: 2
+      }
+    ]
+  };
+
+  return (
+    <section className="bg-[#1a1a1a] p-3 sm:p-4 mb-3 sm:mb-5 rounded-lg space-y-3">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-bold">Backtest a DCA schedule</h2>
+        <button className="text-gray-500 hover:text-gray-300 text-sm" onClick={() => setOpen(false)}>
+          Close
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <label className="space-y-1 sm:col-span-2">
+          <span className="text-gray-400 text-sm">
+            Price history (CSV with a date and price column, or JSON)
+          </span>
+          <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFile} className="block text-sm" />
+          {fileName && !loadError && (
+            <span className="text-gray-500 text-xs">
+              {fileName}: {series.length} prices, {new Date(series[0].timestamp).toLocaleDateString()} –{' '}
+              {new Date(series[series.length - 1].timestamp).toLocaleDateString()}
+            </span>
+          )}
+          {loadError && <span className="text-red-500 text-xs">{loadError}</span>}
+        </label>
+        <label className="space-y-1">
+          <span className="text-gray-400 text-sm">Spend</span>
+          <select value={inputMint} onChange={(e) => setInputMint(e.target.value)} className={inputClass}>
+            {KNOWN_TOKENS.map(token => (
+              <option key={token.mint} value={token.mint}>{token.symbol}</option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="text-gray-400 text-sm">Buy</span>
+          <select value={outputMint} onChange={(e) => setOutputMint(e.target.value)} className={inputClass}>
+            {tokenOptions.filter(token => token.mint !== inputMint).map(token => (
+              <option key={token.mint} value={token.mint}>{token.symbol}</option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="text-gray-400 text-sm">Amount per execution ({inputToken.symbol})</span>
+          <input inputMode="decimal" value={amount} onChange={(e) => setAmount(e.target.value)} className={inputClass} />
+        </label>
+        <label className="space-y-1">
+          <span className="text-gray-400 text-sm">Frequency</span>
+          <select
+            value={frequency}
+            onChange={(e) => setFrequency(e.target.value as DCAOrder['frequency'])}
+            className={inputClass}
+          >
+            {FREQUENCIES.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="text-gray-400 text-sm">Duration (days)</span>
+          <input inputMode="decimal" value={durationDays} onChange={(e) => setDurationDays(e.target.value)} className={inputClass} />
+        </label>
+        <label className="space-y-1">
+          <span className="text-gray-400 text-sm">Start, optional (defaults to the first price)</span>
+          <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClass} />
+        </label>
+        <label className="space-y-1 sm:col-span-2">
+          <span className="text-gray-400 text-sm">Price range, optional ({priceUnit})</span>
+          <div className="flex gap-2">
+            <input inputMode="decimal" placeholder="Min" value={minPrice} onChange={(e) => setMinPrice(e.target.value)} className={inputClass} />
+            <input inputMode="decimal" placeholder="Max" value={maxPrice} onChange={(e) => setMaxPrice(e.target.value)} className={inputClass} />
+          </div>
+        </label>
+      </div>
+
+      {outcome.error && <div className="text-red-500 text-sm">{outcome.error}</div>}
+
+      {result && chartData && (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 sm:gap-4 text-sm">
+            <div className="bg-[#2a2a2a] p-2 sm:p-3 rounded-lg">
+              <span className="text-gray-400">Average entry</span>
+              <p className="text-lg font-bold">{formatNumber(result.averagePrice, 6)}</p>
+              <span className="text-gray-500 text-xs">lump sum {formatNumber(result.lumpSum.price, 6)}</span>
+            </div>
+            <div className="bg-[#2a2a2a] p-2 sm:p-3 rounded-lg">
+              <span className="text-gray-400">{outputToken.symbol} acquired</span>
+              <p className={`text-lg font-bold ${compareClass(result.unitsAcquired, result.lumpSum.unitsAcquired)}`}>
+                {formatNumber(result.unitsAcquired)}
+              </p>
+              <span className="text-gray-500 text-xs">lump sum {formatNumber(result.lumpSum.unitsAcquired)}</span>
+            </div>
+            <div className="bg-[#2a2a2a] p-2 sm:p-3 rounded-lg">
+              <span className="text-gray-400">Value at last price</span>
+              <p className={`text-lg font-bold ${compareClass(result.dcaValue, result.lumpSumValue)}`}>
+                {formatNumber(result.dcaValue, 2)} {inputToken.symbol}
+              </p>
+              <span className="text-gray-500 text-xs">lump sum {formatNumber(result.lumpSumValue, 2)}</span>
+            </div>
+            <div className="bg-[#2a2a2a] p-2 sm:p-3 rounded-lg">
+              <span className="text-gray-400">Executions</span>
+              <p className="text-lg font-bold">
+                {result.executions.length - result.skipped}/{result.order.totalExecutions}
+              </p>
+              <span className="text-gray-500 text-xs">
+                {result.skipped} skipped by price range
+                {result.order.remainingExecutions > 0 && `, ${result.order.remainingExecutions} past the end of the data`}
+              </span>
+            </div>
+          </div>
+          {result.unspent > 0 && (
+            <div className="text-yellow-500 text-sm">
+              {formatNumber(result.unspent, 2)} {inputToken.symbol} was never spent because of the price range
+            </div>
+          )}
+          <div className="bg-[#2a2a2a] p-2 sm:p-4 rounded-lg h-[250px] sm:h-[300px]">
+            <Line data={chartData} options={chartOptions} />
+          </div>
+        </>
+      )}
+    </section>
+  );
+};
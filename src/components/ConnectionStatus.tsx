@@ -0,0 +1,15 @@
+import React from 'react';
+import type { FeedStatus } from '../types/dca';
+
+const STATUS_STYLES: Record<FeedStatus, { color: string; label: string }> = {
+  live: { color: 'bg-green-500', label: 'Live' },
+  connecting: { color: 'bg-gray-500', label: 'Connecting' },
+  polling: { color: 'bg-yellow-500', label: 'Polling' }
+};
+
+export const ConnectionStatus: React.FC<{ status: FeedStatus }> = ({ status }) => (
+  <span className="flex items-center gap-1 text-xs sm:text-sm" title={`Updates: ${STATUS_STYLES[status].label}`}>
+    <span className={`w-2 h-2 rounded-full ${STATUS_STYLES[status].color}`} />
+    {STATUS_STYLES[status].label}
+  </span>
+);
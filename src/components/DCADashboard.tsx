@@ -1,70 +1,43 @@
-import React, { useEffect, useState } from 'react';
-import { Line } from 'react-chartjs-2';
-import {
-  Chart as ChartJS,
-  CategoryScale,
-  LinearScale,
-  PointElement,
-  LineElement,
-  Title,
-  Tooltip,
-  Legend
-} from 'chart.js';
-import type { ChartDataPoint, TokenSummary, Position } from '../types/dca';
-import { jupiterDCA } from '../api/jupiter';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type {
+  ChartDataPoint,
+  ChartRange,
+  FeedStatus,
+  TokenSummary,
+  Position,
+  PositionDelta,
+  DataWarning,
+  PositionFilters,
+  PositionSortKey,
+  TrackedToken
+} from '../types/dca';
+import { dataSources } from '../api/dataSource';
+import { useDataSource } from '../hooks/useDataSource';
+import { tokenRegistry } from '../config/tokens';
 import { LoadingSpinner } from './LoadingSpinner';
+import { TokenSection } from './TokenSection';
+import { AddTokenForm } from './AddTokenForm';
+import { WalletSearch } from './WalletSearch';
+import { ConnectionStatus } from './ConnectionStatus';
+import { ExportMenu } from './ExportMenu';
+import { FixtureMenu } from './FixtureMenu';
+import { ErrorBanner } from './ErrorBanner';
+import { OrderForm } from './OrderForm';
+import { BacktestPanel } from './BacktestPanel';
+import { WalletButton } from './WalletButton';
+import { EmptyResultError, describeError, toDCAError } from '../api/errors';
+import { PositionsToolbar, type PositionsView } from './PositionsToolbar';
+import { applyFilters, DEFAULT_FILTERS } from '../utils/positionFilters';
+import { replacePosition } from '../utils/positionActions';
 
-// Register Chart.js components
-ChartJS.register(
-  CategoryScale,
-  LinearScale,
-  PointElement,
-  LineElement,
-  Title,
-  Tooltip,
-  Legend
-);
-
-// Chart configuration
-const chartOptions = {
-  responsive: true,
-  maintainAspectRatio: false,
-  animation: {
-    duration: 0
-  },
-  scales: {
-    y: {
-      beginAtZero: true,
-      grid: {
-        color: 'rgba(255, 255, 255, 0.1)'
-      },
-      ticks: {
-        color: 'rgba(255, 255, 255, 0.8)'
-      }
-    },
-    x: {
-      grid: {
-        display: false
-      },
-      ticks: {
-        color: 'rgba(255, 255, 255, 0.8)'
-      }
-    }
-  },
-  plugins: {
-    legend: {
-      labels: {
-        color: 'white',
-        font: {
-          size: 12
-        }
-      }
-    }
-  }
-};
-
-// Format the sell volume
-const formatVolume = (volume: number) => Math.round(volume);
+const POLL_INTERVAL = 5000;
+// While the socket is live, poll rarely to pick up prices, closed accounts and snapshots
+const RECONCILE_INTERVAL = 60000;
+// Automatic retries after a failed fetch back off from 5s up to 2 minutes
+const RETRY_BASE_DELAY = 5000;
+const RETRY_MAX_DELAY = 120000;
+// RPC nodes can lag a just-confirmed transaction, so give them a moment before re-reading
+const POST_TX_REFRESH_DELAY = 3000;
 
 export const DCADashboard: React.FC = () => {
   const [chartData, setChartData] = useState<Record<string, ChartDataPoint[]>>({});
@@ -72,47 +45,120 @@ export const DCADashboard: React.FC = () => {
   const [positions, setPositions] = useState<Position[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [warnings, setWarnings] = useState<DataWarning[]>([]);
+  // Consecutive failed fetches, and when the auto-refresh may try again
+  const failuresRef = useRef(0);
+  const retryAtRef = useRef(0);
   const [autoRefresh, setAutoRefresh] = useState(true);
   const [lastUpdate, setLastUpdate] = useState<Date>(new Date());
+  const [tokens, setTokens] = useState<TrackedToken[]>(tokenRegistry.getTokens());
+  const [chartRange, setChartRange] = useState<ChartRange>('24h');
+  // The auto-refresh interval holds on to the first fetchData, so it reads the range from here
+  const chartRangeRef = useRef(chartRange);
+  const dataSource = useDataSource();
+  const [feedStatus, setFeedStatus] = useState<FeedStatus>('polling');
+  const [view, setView] = useState<PositionsView>('cards');
+  const [filters, setFilters] = useState<PositionFilters>(DEFAULT_FILTERS);
+  const visiblePositions = useMemo(() => applyFilters(positions, filters), [positions, filters]);
+
+  // Clicking the active column flips direction, a new column starts descending
+  const handleSort = (sortBy: PositionSortKey) => {
+    setFilters(current => ({
+      ...current,
+      sortBy,
+      sortDirection: current.sortBy === sortBy && current.sortDirection === 'desc' ? 'asc' : 'desc'
+    }));
+  };
 
-  const fetchData = async () => {
+  // Show an owner action's result right away, then reconcile with the chain
+  const handlePositionChange = (id: string, next: Position | null) => {
+    setPositions(current => replacePosition(current, id, next));
+    window.setTimeout(() => fetchData(false), POST_TX_REFRESH_DELAY);
+  };
+
+  // Background refreshes skip the spinner so the page doesn't flash
+  const fetchData = async (showSpinner = true) => {
     try {
-      console.log('Starting data fetch...');
-      setLoading(true);
-      setError(null); // Clear any previous errors
+      if (showSpinner) {
+        setLoading(true);
+      }
       
-      const data = await jupiterDCA.getDCAAccounts();
+      const data = await dataSources.current.getDCAAccounts(undefined, chartRangeRef.current);
       
       if (!data.positions || !data.summary) {
-        throw new Error('Invalid data received');
+        throw new EmptyResultError('Invalid data received');
       }
       
       setPositions(data.positions);
       setSummaryData(data.summary);
       setChartData(data.chartData);
+      setWarnings(data.warnings ?? []);
       setLastUpdate(new Date());
-      setLoading(false);
+      setError(null);
+      failuresRef.current = 0;
+      retryAtRef.current = 0;
     } catch (err) {
       console.error('Failed to fetch DCA data:', err);
-      setError('Failed to fetch data. Retrying...');
-      // Try again after a delay
-      setTimeout(fetchData, 2000);
+      // Keep the last good data on screen and back off before the next automatic try
+      failuresRef.current += 1;
+      const typed = toDCAError(err);
+      retryAtRef.current = typed.retryable
+        ? Date.now() + Math.min(RETRY_BASE_DELAY * 2 ** (failuresRef.current - 1), RETRY_MAX_DELAY)
+        : Infinity;
+      setError(typed.retryable ? describeError(typed) : `${describeError(typed)} Retry manually once it's fixed.`);
+    } finally {
+      setLoading(false);
     }
   };
 
-  // Initial fetch
+  // Keep the tracked token list in sync with the registry
+  useEffect(() => tokenRegistry.subscribe(setTokens), []);
+
+  // Initial fetch, and again whenever the tracked tokens or data source change
   useEffect(() => {
     fetchData();
-  }, []);
+  }, [tokens, dataSource]);
+
+  // Subscribe to live account changes when the source supports it
+  useEffect(() => {
+    if (!dataSource.subscribe) {
+      setFeedStatus('polling');
+      return;
+    }
+
+    const applyDelta = (delta: PositionDelta) => {
+      const upsertedIds = new Set(delta.upserted.map(position => position.id));
+      setPositions(current => [
+        ...current.filter(position => !upsertedIds.has(position.id) && !delta.removed.includes(position.id)),
+        ...delta.upserted
+      ]);
+      setSummaryData(delta.summary);
+      setLastUpdate(new Date());
+    };
+
+    return dataSource.subscribe(tokens, applyDelta, setFeedStatus);
+  }, [tokens, dataSource]);
+
+  // Reload the charts from history when the range changes
+  useEffect(() => {
+    chartRangeRef.current = chartRange;
+    dataSource.getChartHistory(chartRange)
+      .then(setChartData)
+      .catch(err => console.error('Failed to load chart history:', err));
+  }, [chartRange, dataSource]);
 
-  // Auto-refresh setup
+  // Auto-refresh setup, falling back to fast polling whenever the socket isn't live
   useEffect(() => {
     let intervalId: number;
 
     if (autoRefresh) {
       intervalId = window.setInterval(() => {
-        fetchData();
-      }, 5000); // Refresh every 5 seconds
+        // Still backing off after a failure
+        if (Date.now() < retryAtRef.current) {
+          return;
+        }
+        fetchData(false);
+      }, feedStatus === 'live' ? RECONCILE_INTERVAL : POLL_INTERVAL);
     }
 
     return () => {
@@ -120,83 +166,7 @@ export const DCADashboard: React.FC = () => {
         clearInterval(intervalId);
       }
     };
-  }, [autoRefresh]);
-
-  // Add debug logs
-  useEffect(() => {
-    console.log('Current state:', {
-      positions,
-      summaryData,
-      chartData,
-      loading,
-      error
-    });
-  }, [positions, summaryData, chartData, loading, error]);
-
-  // Add debug logs for LOGOS positions
-  useEffect(() => {
-    console.log('LOGOS positions:', positions.filter(p => p.token === 'LOGOS'));
-  }, [positions]);
-
-  const createChartData = (token: string) => {
-    console.log(`Creating ${token} chart with:`, {
-      hasData: !!chartData[token]?.length,
-      points: chartData[token]
-    });
-    
-    if (!chartData[token]?.length) {
-      return {
-        labels: [],
-        datasets: []
-      };
-    }
-    
-    return {
-      labels: chartData[token].map(point => {
-        const date = new Date(point.timestamp);
-        return `${date.getHours()}:${date.getMinutes().toString().padStart(2, '0')}`;
-      }),
-      datasets: [
-        {
-          label: 'Buy Volume',
-          data: chartData[token].map(point => point.buyVolume),
-          borderColor: '#4CAF50',
-          backgroundColor: 'rgba(76, 175, 80, 0.1)',
-          tension: 0.4,
-          fill: true,
-          borderWidth: 2
-        },
-        {
-          label: 'Sell Volume',
-          data: chartData[token].map(point => point.sellVolume),
-          borderColor: '#f44336',
-          backgroundColor: 'rgba(244, 67, 54, 0.1)',
-          tension: 0.4,
-          fill: true,
-          borderWidth: 2
-        }
-      ]
-    };
-  };
-
-  // Add a debug log before the loading check
-  console.log('Pre-render state:', { loading, positions: positions.length });
-
-  if (error) {
-    return (
-      <div className="flex items-center justify-center min-h-screen">
-        <div className="text-red-500">{error}</div>
-      </div>
-    );
-  }
-
-  console.log('Rendering dashboard with:', {
-    positionsCount: positions.length,
-    logosPositions: positions.filter(p => p.token === 'LOGOS').length,
-    chaosPositions: positions.filter(p => p.token === 'CHAOS').length,
-    hasSummary: !!summaryData?.LOGOS && !!summaryData?.CHAOS,
-    hasChartData: !!chartData?.LOGOS?.length && !!chartData?.CHAOS?.length
-  });
+  }, [autoRefresh, feedStatus]);
 
   return (
     <div className="container mx-auto p-2 sm:p-5">
@@ -204,16 +174,45 @@ export const DCADashboard: React.FC = () => {
       
       {/* Status Banner */}
       <div className="bg-[#1a1a1a] p-3 sm:p-4 mb-3 sm:mb-5 rounded-lg border-l-4 border-yellow-500 flex flex-col sm:flex-row sm:justify-between sm:items-center gap-2">
-        <div className="text-gray-300 text-sm sm:text-base">
-          Data as of {lastUpdate.toLocaleString()}
+        <div className="text-gray-300 text-sm sm:text-base flex items-center gap-3">
+          <span>Data as of {lastUpdate.toLocaleString()}</span>
+          <ConnectionStatus status={feedStatus} />
         </div>
         <div className="flex flex-col sm:flex-row gap-2 sm:gap-4 items-start sm:items-center">
           <button 
             className="bg-[#3a3a3a] px-3 py-1 sm:px-4 sm:py-2 rounded hover:bg-[#4a4a4a] text-sm sm:text-base"
-            onClick={fetchData}
+            onClick={() => fetchData()}
           >
             Refresh Now
           </button>
+          <WalletButton />
+          <ExportMenu
+            input={{
+              positions: visiblePositions,
+              summary: summaryData,
+              chartData,
+              filters: {
+                ...filters,
+                tokens: tokens.map(token => token.symbol),
+                chartRange,
+                dataSource: dataSource.name
+              }
+            }}
+          />
+          <FixtureMenu dataSource={dataSource} />
+          <div className="flex items-center gap-2">
+            <label htmlFor="data-source" className="text-sm sm:text-base">Source</label>
+            <select
+              id="data-source"
+              value={dataSource.name}
+              onChange={(e) => dataSources.select(e.target.value)}
+              className="bg-[#3a3a3a] px-2 py-1 rounded text-sm sm:text-base"
+            >
+              {dataSources.list().map(source => (
+                <option key={source.name} value={source.name}>{source.label}</option>
+              ))}
+            </select>
+          </div>
           <div className="flex items-center gap-2">
             <label htmlFor="auto-refresh" className="text-sm sm:text-base">Auto-refresh</label>
             <input
@@ -227,190 +226,41 @@ export const DCADashboard: React.FC = () => {
         </div>
       </div>
 
-      {/* Main Content */}
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-3 sm:gap-5">
-        {/* LOGOS Section */}
-        <section className="bg-[#1a1a1a] rounded-lg p-3 sm:p-5">
-          <h2 className="text-lg sm:text-xl font-bold mb-3 sm:mb-4">LOGOS DCA</h2>
-          <div className="grid grid-cols-2 gap-2 sm:gap-4 mb-3 sm:mb-5">
-            {/* Buy Stats */}
-            <div className="bg-[#2a2a2a] p-2 sm:p-4 rounded-lg">
-              <div className="flex items-center gap-2 mb-2">
-                <div className="w-2 h-2 rounded-full bg-green-500"></div>
-                <span className="text-gray-400">Buy Orders</span>
-              </div>
-              <p className="text-xl font-bold">{summaryData?.LOGOS?.buyOrders}</p>
-              <div className="mt-4">
-                <span className="text-gray-400">Buy Volume</span>
-                <p className="text-xl font-bold">{summaryData?.LOGOS?.buyVolume.toLocaleString()}</p>
-                <p className="text-sm text-gray-500">${summaryData?.LOGOS?.buyVolumeUSDC.toLocaleString()} USDC</p>
-              </div>
-            </div>
-
-            {/* Sell Stats */}
-            <div className="bg-[#2a2a2a] p-2 sm:p-4 rounded-lg">
-              <div className="flex items-center gap-2 mb-2">
-                <div className="w-2 h-2 rounded-full bg-red-500"></div>
-                <span className="text-gray-400">Sell Orders</span>
-              </div>
-              <p className="text-xl font-bold">{summaryData?.LOGOS?.sellOrders}</p>
-              <div className="mt-4">
-                <span className="text-gray-400">Sell Volume</span>
-                <p className="text-xl font-bold">{formatVolume(summaryData?.LOGOS?.sellVolume).toLocaleString()}</p>
-                <p className="text-sm text-gray-500">${summaryData?.LOGOS?.sellVolumeUSDC.toLocaleString()} USDC</p>
-              </div>
-            </div>
-          </div>
-
-          {/* Chart */}
-          <div className="bg-[#2a2a2a] p-2 sm:p-4 rounded-lg h-[250px] sm:h-[300px] mb-3 sm:mb-5">
-            <Line data={createChartData('LOGOS')} options={chartOptions} />
-          </div>
-
-          {/* Positions */}
-          <div className="space-y-2 sm:space-y-4">
-            {positions
-              .filter(position => position.token === 'LOGOS')
-              .map((position) => (
-                <div 
-                  key={position.id} 
-                  className={`bg-[#2a2a2a] p-2 sm:p-4 rounded-lg border-l-4 ${
-                    position.type === 'BUY' ? 'border-green-500' : 'border-red-500'
-                  }`}
-                >
-                  <div className="flex justify-between mb-2">
-                    <span className="text-sm sm:text-base">
-                      {position.type === 'BUY' ? '🟢 BUY' : '🔴 SELL'}
-                    </span>
-                    <span className="text-gray-500 text-xs sm:text-sm">
-                      {new Date(position.lastUpdate).toLocaleString()}
-                    </span>
-                  </div>
-                  <div className="space-y-1 text-sm">
-                    <div>Input: {position.inputToken} ({position.inputAmount})</div>
-                    <div>Output: {position.outputToken}</div>
-                    <div>Remaining: {position.remainingCycles}/{position.totalAmount}</div>
-                    <div>Frequency: {position.cycleFrequency}s</div>
-                    
-                    {position.targetPrice && (
-                      <div className="mt-2 pt-2 border-t border-gray-700">
-                        <div>Target Price: {position.targetPrice.toFixed(4)} {position.priceToken}</div>
-                        {position.currentPrice && (
-                          <div>Current Price: {position.currentPrice.toFixed(4)} {position.priceToken}</div>
-                        )}
-                        {position.estimatedOutput && (
-                          <div>Est. Output: ~{position.estimatedOutput.toFixed(2)} {position.outputToken}</div>
-                        )}
-                      </div>
-                    )}
-                    
-                    <div className="mt-2">
-                      <a 
-                        href={`https://solscan.io/account/${position.publicKey}/dca?cluster=mainnet-beta`}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="text-blue-400 hover:text-blue-300"
-                      >
-                        View on Solscan ↗
-                      </a>
-                    </div>
-                  </div>
-                </div>
-            ))}
-          </div>
-        </section>
-
-        {/* CHAOS Section */}
-        <section className="bg-[#1a1a1a] rounded-lg p-3 sm:p-5">
-          <h2 className="text-lg sm:text-xl font-bold mb-3 sm:mb-4">CHAOS DCA</h2>
-          <div className="grid grid-cols-2 gap-2 sm:gap-4 mb-3 sm:mb-5">
-            {/* Buy Stats */}
-            <div className="bg-[#2a2a2a] p-2 sm:p-4 rounded-lg">
-              <div className="flex items-center gap-2 mb-2">
-                <div className="w-2 h-2 rounded-full bg-green-500"></div>
-                <span className="text-gray-400">Buy Orders</span>
-              </div>
-              <p className="text-xl font-bold">{summaryData?.CHAOS?.buyOrders}</p>
-              <div className="mt-4">
-                <span className="text-gray-400">Buy Volume</span>
-                <p className="text-xl font-bold">{summaryData?.CHAOS?.buyVolume.toLocaleString()}</p>
-                <p className="text-sm text-gray-500">${summaryData?.CHAOS?.buyVolumeUSDC.toLocaleString()} USDC</p>
-              </div>
-            </div>
-
-            {/* Sell Stats */}
-            <div className="bg-[#2a2a2a] p-2 sm:p-4 rounded-lg">
-              <div className="flex items-center gap-2 mb-2">
-                <div className="w-2 h-2 rounded-full bg-red-500"></div>
-                <span className="text-gray-400">Sell Orders</span>
-              </div>
-              <p className="text-xl font-bold">{summaryData?.CHAOS?.sellOrders}</p>
-              <div className="mt-4">
-                <span className="text-gray-400">Sell Volume</span>
-                <p className="text-xl font-bold">{formatVolume(summaryData?.CHAOS?.sellVolume).toLocaleString()}</p>
-                <p className="text-sm text-gray-500">${summaryData?.CHAOS?.sellVolumeUSDC.toLocaleString()} USDC</p>
-              </div>
-            </div>
-          </div>
+      <ErrorBanner error={error} warnings={warnings} lastUpdate={lastUpdate} onRetry={() => fetchData()} />
 
-          {/* Chart */}
-          <div className="bg-[#2a2a2a] p-2 sm:p-4 rounded-lg h-[250px] sm:h-[300px] mb-3 sm:mb-5">
-            <Line data={createChartData('CHAOS')} options={chartOptions} />
-          </div>
+      <WalletSearch />
+      <AddTokenForm />
+      <OrderForm onCreated={() => fetchData(false)} />
+      <BacktestPanel />
+      <PositionsToolbar
+        view={view}
+        onViewChange={setView}
+        filters={filters}
+        onFiltersChange={setFilters}
+      />
 
-          {/* Positions */}
-          <div className="space-y-2 sm:space-y-4">
-            {positions
-              .filter(position => position.token === 'CHAOS')
-              .map((position) => (
-                <div 
-                  key={position.id} 
-                  className={`bg-[#2a2a2a] p-2 sm:p-4 rounded-lg border-l-4 ${
-                    position.type === 'BUY' ? 'border-green-500' : 'border-red-500'
-                  }`}
-                >
-                  <div className="flex justify-between mb-2">
-                    <span className="text-sm sm:text-base">
-                      {position.type === 'BUY' ? '🟢 BUY' : '🔴 SELL'}
-                    </span>
-                    <span className="text-gray-500 text-xs sm:text-sm">
-                      {new Date(position.lastUpdate).toLocaleString()}
-                    </span>
-                  </div>
-                  <div className="space-y-1 text-sm">
-                    <div>Input: {position.inputToken} ({position.inputAmount})</div>
-                    <div>Output: {position.outputToken}</div>
-                    <div>Remaining: {position.remainingCycles}/{position.totalAmount}</div>
-                    <div>Frequency: {position.cycleFrequency}s</div>
-                    
-                    {position.targetPrice && (
-                      <div className="mt-2 pt-2 border-t border-gray-700">
-                        <div>Target Price: {position.targetPrice.toFixed(4)} {position.priceToken}</div>
-                        {position.currentPrice && (
-                          <div>Current Price: {position.currentPrice.toFixed(4)} {position.priceToken}</div>
-                        )}
-                        {position.estimatedOutput && (
-                          <div>Est. Output: ~{position.estimatedOutput.toFixed(2)} {position.outputToken}</div>
-                        )}
-                      </div>
-                    )}
-                    
-                    <div className="mt-2">
-                      <a 
-                        href={`https://solscan.io/account/${position.publicKey}/dca?cluster=mainnet-beta`}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="text-blue-400 hover:text-blue-300"
-                      >
-                        View on Solscan ↗
-                      </a>
-                    </div>
-                  </div>
-                </div>
-            ))}
-          </div>
-        </section>
+      {/* Main Content */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-3 sm:gap-5">
+        {tokens.map(token => (
+          <TokenSection
+            key={token.mint}
+            token={token}
+            summary={summaryData[token.symbol]}
+            chartData={chartData[token.symbol]}
+            chartRange={chartRange}
+            onChartRangeChange={setChartRange}
+            positions={positions.filter(position => position.token === token.symbol)}
+            visiblePositions={visiblePositions.filter(position => position.token === token.symbol)}
+            view={view}
+            filters={filters}
+            onSort={handleSort}
+            onPositionChange={handlePositionChange}
+            onRemove={tokenRegistry.isCustom(token.mint)
+              ? () => tokenRegistry.removeToken(token.mint)
+              : undefined}
+          />
+        ))}
       </div>
     </div>
   );
-}; 
\ No newline at end of file
+}; 
@@ -0,0 +1,43 @@
+import React from 'react';
+import type { DataWarning } from '../types/dca';
+
+interface ErrorBannerProps {
+  error: string | null;
+  warnings: DataWarning[];
+  lastUpdate: Date;
+  onRetry: () => void;
+}
+
+// Shown above the data instead of replacing it, so a failed refresh keeps the last good numbers on screen
+export const ErrorBanner: React.FC<ErrorBannerProps> = ({ error, warnings, lastUpdate, onRetry }) => {
+  if (!error && warnings.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2 mb-3 sm:mb-5">
+      {error && (
+        <div className="bg-[#1a1a1a] p-3 rounded-lg border-l-4 border-red-500 flex flex-col sm:flex-row sm:justify-between sm:items-center gap-2 text-sm sm:text-base">
+          <span>
+            <span className="text-red-500">{error}</span>{' '}
+            <span className="text-gray-400">Showing data from {lastUpdate.toLocaleString()}.</span>
+          </span>
+          <button
+            className="bg-[#3a3a3a] px-3 py-1 rounded hover:bg-[#4a4a4a] text-sm self-start sm:self-auto"
+            onClick={onRetry}
+          >
+            Retry
+          </button>
+        </div>
+      )}
+      {warnings.map(warning => (
+        <div
+          key={`${warning.kind}:${warning.message}`}
+          className="bg-[#1a1a1a] p-2 rounded-lg border-l-4 border-yellow-500 text-sm text-yellow-500"
+        >
+          {warning.message}
+        </div>
+      ))}
+    </div>
+  );
+};
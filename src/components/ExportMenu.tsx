@@ -0,0 +1,45 @@
+import React, { useState } from 'react';
+import { download } from '../utils/download';
+import { exportData, type ExportDataset, type ExportFormat, type ExportInput } from '../api/export';
+
+const DATASETS: { value: ExportDataset; label: string }[] = [
+  { value: 'positions', label: 'Positions' },
+  { value: 'summary', label: 'Summaries' },
+  { value: 'history', label: 'Chart history' }
+];
+
+export const ExportMenu: React.FC<{ input: ExportInput }> = ({ input }) => {
+  const [dataset, setDataset] = useState<ExportDataset>('positions');
+
+  const handleExport = (format: ExportFormat) => {
+    const file = exportData(dataset, format, input);
+    download(file.filename, file.content, file.mimeType);
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={dataset}
+        onChange={(e) => setDataset(e.target.value as ExportDataset)}
+        className="bg-[#3a3a3a] px-2 py-1 rounded text-sm sm:text-base"
+        aria-label="Export dataset"
+      >
+        {DATASETS.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+      <button
+        className="bg-[#3a3a3a] px-2 py-1 rounded hover:bg-[#4a4a4a] text-sm sm:text-base"
+        onClick={() => handleExport('csv')}
+      >
+        CSV
+      </button>
+      <button
+        className="bg-[#3a3a3a] px-2 py-1 rounded hover:bg-[#4a4a4a] text-sm sm:text-base"
+        onClick={() => handleExport('json')}
+      >
+        JSON
+      </button>
+    </div>
+  );
+};
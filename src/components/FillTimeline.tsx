@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react';
+import type { Position, PositionFills } from '../types/dca';
+import { useDataSource } from '../hooks/useDataSource';
+import { Amount } from './Amount';
+import { explorerUrl } from '../config/cluster';
+
+interface FillTimelineProps {
+  position: Position;
+}
+
+export const FillTimeline: React.FC<FillTimelineProps> = ({ position }) => {
+  const [data, setData] = useState<PositionFills | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const dataSource = useDataSource();
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    dataSource.getPositionFills(position)
+      .then(result => {
+        if (!cancelled) {
+          setData(result);
+          setError(null);
+        }
+      })
+      .catch(err => {
+        console.error('Failed to load fills:', err);
+        if (!cancelled) {
+          setError('Failed to load fills');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [position, dataSource]);
+
+  if (loading && !data) {
+    return <div className="text-gray-500 text-xs">Loading fills...</div>;
+  }
+
+  if (error) {
+    return <div className="text-red-500 text-xs">{error}</div>;
+  }
+
+  if (!data || data.fills.length === 0) {
+    return <div className="text-gray-500 text-xs">No fills yet</div>;
+  }
+
+  return (
+    <div className="mt-2 pt-2 border-t border-gray-700 text-xs sm:text-sm">
+      <div className="grid grid-cols-2 gap-1 mb-2">
+        <div>Fills: {data.fills.length}</div>
+        <div>Avg Price: {data.averagePrice.toFixed(6)} {position.priceToken}</div>
+        <div>
+          Spent: <Amount value={data.totalSpent.value} amount={data.totalSpent} /> {position.inputToken}
+        </div>
+        <div>
+          Received: <Amount value={data.totalReceived.value} amount={data.totalReceived} /> {position.outputToken}
+        </div>
+      </div>
+      <ol className="border-l border-gray-600 pl-3 space-y-1 max-h-48 overflow-y-auto">
+        {data.fills.map(fill => (
+          <li key={fill.signature} className="flex justify-between gap-2">
+            <span className="text-gray-500">{new Date(fill.timestamp).toLocaleString()}</span>
+            <span>
+              <Amount value={fill.inAmount.value} amount={fill.inAmount} /> → <Amount value={fill.outAmount.value} amount={fill.outAmount} />
+            </span>
+            <a
+              href={explorerUrl('tx', fill.signature)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-blue-400 hover:text-blue-300"
+              title={`@ ${fill.price.toFixed(6)} ${position.priceToken}`}
+            >
+              ↗
+            </a>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
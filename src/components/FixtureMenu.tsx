@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { dataSources, type DCADataSource } from '../api/dataSource';
+import { parseFixture, ReplayDCAAPI } from '../api/replay';
+import { download } from '../utils/download';
+
+const buttonClass = 'bg-[#3a3a3a] px-2 py-1 rounded hover:bg-[#4a4a4a] text-sm sm:text-base';
+
+// Record what the current source last read, or replay a recording offline
+export const FixtureMenu: React.FC<{ dataSource: DCADataSource }> = ({ dataSource }) => {
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRecord = () => {
+    if (!dataSource.exportFixture) {
+      return;
+    }
+    setError(null);
+    try {
+      const fixture = dataSource.exportFixture();
+      const stamp = new Date(fixture.recordedAt).toISOString().replace(/[:.]/g, '-');
+      download(`dca-fixture-${stamp}.json`, JSON.stringify(fixture, null, 2), 'application/json');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record');
+    }
+  };
+
+  const handleReplay = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Let the same file be picked again
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+    setError(null);
+    try {
+      const fixture = parseFixture(await file.text());
+      dataSources.register(new ReplayDCAAPI(fixture));
+      dataSources.select('replay');
+    } catch (err) {
+      console.error('Failed to load fixture:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load the fixture');
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <button
+        className={`${buttonClass} disabled:opacity-50 disabled:cursor-not-allowed`}
+        onClick={handleRecord}
+        disabled={!dataSource.exportFixture}
+        title="Download the raw accounts and prices from the last refresh"
+      >
+        Record
+      </button>
+      <label className={`${buttonClass} cursor-pointer`}>
+        Replay…
+        <input type="file" accept=".json,application/json" onChange={handleReplay} className="hidden" />
+      </label>
+      {error && <span className="text-red-500 text-xs">{error}</span>}
+    </div>
+  );
+};
@@ -0,0 +1,208 @@
+import React, { useMemo, useState } from 'react';
+import type { OrderRequest, OrderResult, TxStatus } from '../types/dca';
+import { KNOWN_TOKENS, tokenRegistry } from '../config/tokens';
+import { explorerUrl } from '../config/cluster';
+import { useDataSource } from '../hooks/useDataSource';
+import { useWallet } from '../hooks/useWallet';
+import { previewSchedule, validateOrder } from '../utils/orders';
+import { formatDuration, formatRelative } from '../utils/format';
+
+interface OrderFormProps {
+  onCreated?: (result: OrderResult) => void;
+}
+
+const FREQUENCY_UNITS: { label: string; seconds: number }[] = [
+  { label: 'minutes', seconds: 60 },
+  { label: 'hours', seconds: 3600 },
+  { label: 'days', seconds: 86400 },
+  { label: 'weeks', seconds: 604800 }
+];
+
+const TX_STATUS: Record<TxStatus, string> = {
+  signing: 'Waiting for wallet signature...',
+  sending: 'Sending transaction...',
+  confirming: 'Confirming...',
+  confirmed: 'Order created',
+  failed: 'Transaction failed'
+};
+
+const inputClass = 'bg-[#2a2a2a] px-3 py-1 sm:py-2 rounded text-sm sm:text-base w-full';
+
+const optionalNumber = (value: string) => (value.trim() ? Number(value) : undefined);
+
+export const OrderForm: React.FC<OrderFormProps> = ({ onCreated }) => {
+  const dataSource = useDataSource();
+  const signer = useWallet();
+  const [open, setOpen] = useState(false);
+  const [inputMint, setInputMint] = useState(KNOWN_TOKENS[0].mint);
+  const [outputMint, setOutputMint] = useState(tokenRegistry.getTokens()[0]?.mint ?? '');
+  const [totalAmount, setTotalAmount] = useState('');
+  const [amountPerCycle, setAmountPerCycle] = useState('');
+  const [frequency, setFrequency] = useState('1');
+  const [frequencyUnit, setFrequencyUnit] = useState(3600);
+  const [minPrice, setMinPrice] = useState('');
+  const [maxPrice, setMaxPrice] = useState('');
+  const [touched, setTouched] = useState(false);
+  const [status, setStatus] = useState<TxStatus | null>(null);
+  const [signature, setSignature] = useState<string | undefined>();
+  const [error, setError] = useState<string | null>(null);
+
+  const order: OrderRequest = {
+    inputMint: inputMint.trim(),
+    outputMint: outputMint.trim(),
+    totalAmount,
+    amountPerCycle,
+    cycleFrequency: Math.round(Number(frequency) * frequencyUnit),
+    priceRange: { min: optionalNumber(minPrice), max: optionalNumber(maxPrice) }
+  };
+  const errors = validateOrder(order);
+  const valid = Object.keys(errors).length === 0;
+  const preview = valid ? previewSchedule(order) : null;
+  const busy = status !== null && status !== 'confirmed' && status !== 'failed';
+  const readOnly = !dataSource.createOrder || !!dataSource.readOnly;
+
+  const tokenOptions = useMemo(() => [...KNOWN_TOKENS, ...tokenRegistry.getTokens()], []);
+  const symbolFor = (mint: string) => tokenRegistry.symbolForMint(mint.trim());
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setTouched(true);
+    if (!valid || !signer || readOnly || !dataSource.createOrder) {
+      return;
+    }
+    setError(null);
+    setSignature(undefined);
+    try {
+      const result = await dataSource.createOrder(order, signer, (next, sig) => {
+        setStatus(next);
+        if (sig) {
+          setSignature(sig);
+        }
+      });
+      onCreated?.(result);
+    } catch (err) {
+      console.error('Failed to create order:', err);
+      setStatus('failed');
+      setError(err instanceof Error ? err.message : 'Failed to create order');
+    }
+  };
+
+  if (!open) {
+    return (
+      <button
+        className="bg-[#1a1a1a] p-3 sm:p-4 mb-3 sm:mb-5 rounded-lg w-full text-left hover:bg-[#222] text-sm sm:text-base"
+        onClick={() => setOpen(true)}
+      >
+        + New DCA order
+      </button>
+    );
+  }
+
+  const fieldError = (field: keyof typeof errors) =>
+    touched && errors[field] ? <span className="text-red-500 text-xs">{errors[field]}</span> : null;
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-[#1a1a1a] p-3 sm:p-4 mb-3 sm:mb-5 rounded-lg space-y-3">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-bold">New DCA order</h2>
+        <button type="button" className="text-gray-500 hover:text-gray-300 text-sm" onClick={() => setOpen(false)}>
+          Close
+        </button>
+      </div>
+
+      <datalist id="order-tokens">
+        {tokenOptions.map(token => (
+          <option key={token.mint} value={token.mint}>{token.symbol}</option>
+        ))}
+      </datalist>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <label className="space-y-1">
+          <span className="text-gray-400 text-sm">Spend ({symbolFor(inputMint)})</span>
+          <input list="order-tokens" value={inputMint} onChange={(e) => setInputMint(e.target.value)} className={inputClass} />
+          {fieldError('inputMint')}
+        </label>
+        <label className="space-y-1">
+          <span className="text-gray-400 text-sm">Buy ({symbolFor(outputMint)})</span>
+          <input list="order-tokens" value={outputMint} onChange={(e) => setOutputMint(e.target.value)} className={inputClass} />
+          {fieldError('outputMint')}
+        </label>
+        <label className="space-y-1">
+          <span className="text-gray-400 text-sm">Total amount</span>
+          <input inputMode="decimal" value={totalAmount} onChange={(e) => setTotalAmount(e.target.value)} className={inputClass} />
+          {fieldError('totalAmount')}
+        </label>
+        <label className="space-y-1">
+          <span className="text-gray-400 text-sm">Amount per cycle</span>
+          <input inputMode="decimal" value={amountPerCycle} onChange={(e) => setAmountPerCycle(e.target.value)} className={inputClass} />
+          {fieldError('amountPerCycle')}
+        </label>
+        <label className="space-y-1">
+          <span className="text-gray-400 text-sm">Every</span>
+          <div className="flex gap-2">
+            <input inputMode="decimal" value={frequency} onChange={(e) => setFrequency(e.target.value)} className={inputClass} />
+            <select
+              value={frequencyUnit}
+              onChange={(e) => setFrequencyUnit(Number(e.target.value))}
+              className="bg-[#2a2a2a] px-2 py-1 rounded text-sm sm:text-base"
+            >
+              {FREQUENCY_UNITS.map(unit => (
+                <option key={unit.seconds} value={unit.seconds}>{unit.label}</option>
+              ))}
+            </select>
+          </div>
+          {fieldError('cycleFrequency')}
+        </label>
+        <label className="space-y-1">
+          <span className="text-gray-400 text-sm">
+            Price range, optional ({symbolFor(inputMint)} per {symbolFor(outputMint)})
+          </span>
+          <div className="flex gap-2">
+            <input inputMode="decimal" placeholder="Min" value={minPrice} onChange={(e) => setMinPrice(e.target.value)} className={inputClass} />
+            <input inputMode="decimal" placeholder="Max" value={maxPrice} onChange={(e) => setMaxPrice(e.target.value)} className={inputClass} />
+          </div>
+          {fieldError('priceRange')}
+        </label>
+      </div>
+
+      {preview && (
+        <div className="bg-[#2a2a2a] p-2 sm:p-3 rounded-lg text-sm text-gray-300 space-y-1">
+          <div>
+            {preview.cycles} cycles of {amountPerCycle} {symbolFor(inputMint)} every {formatDuration(order.cycleFrequency)}
+            {preview.lastCycleAmount !== Number(amountPerCycle) && ` (last one ${preview.lastCycleAmount})`}
+          </div>
+          <div className="text-gray-400">
+            Runs {preview.upcoming.map(at => new Date(at).toLocaleString()).join(', ')}
+            {preview.cycles > preview.upcoming.length && ', ...'}
+          </div>
+          <div className="text-gray-400">
+            Completes {new Date(preview.completesAt).toLocaleString()} ({formatRelative(preview.completesAt)})
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="submit"
+          disabled={busy || !signer || readOnly}
+          className="bg-[#3a3a3a] px-3 py-1 sm:px-4 sm:py-2 rounded hover:bg-[#4a4a4a] disabled:opacity-50 text-sm sm:text-base"
+        >
+          Create order
+        </button>
+        {!signer && <span className="text-gray-400 text-sm">Connect a wallet to create orders</span>}
+        {readOnly && <span className="text-gray-400 text-sm">{dataSource.label} is read-only</span>}
+        {status && (
+          <span className={`text-sm ${status === 'failed' ? 'text-red-500' : status === 'confirmed' ? 'text-green-500' : 'text-gray-300'}`}>
+            {TX_STATUS[status]}
+          </span>
+        )}
+        {signature && (
+          <a href={explorerUrl('tx', signature)} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300 text-sm">
+            View transaction ↗
+          </a>
+        )}
+        {error && <span className="text-red-500 text-sm">{error}</span>}
+      </div>
+    </form>
+  );
+};
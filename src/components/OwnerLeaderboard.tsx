@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import type { OwnerAggregate, OwnerLeaderboard as Leaderboard } from '../types/dca';
+import { navigate, walletPath } from '../hooks/useRoute';
+
+interface OwnerLeaderboardProps {
+  leaderboard: Leaderboard;
+}
+
+const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+const OwnerRow: React.FC<{ owner: OwnerAggregate; usdc: number; rank: number }> = ({ owner, usdc, rank }) => (
+  <li className="flex justify-between gap-2">
+    <span className="truncate">
+      <span className="text-gray-500">{rank}.</span>{' '}
+      <a
+        href={walletPath(owner.owner)}
+        onClick={(e) => {
+          e.preventDefault();
+          navigate(walletPath(owner.owner));
+        }}
+        className={owner.twoSided ? 'text-yellow-400 hover:text-yellow-300' : 'text-blue-400 hover:text-blue-300'}
+        title={owner.twoSided ? 'DCAs in both directions' : owner.owner}
+      >
+        {owner.owner.slice(0, 4)}…{owner.owner.slice(-4)}
+      </a>
+      {owner.twoSided && <span className="text-yellow-400"> ⇄</span>}
+    </span>
+    <span>${Math.round(usdc).toLocaleString()}</span>
+  </li>
+);
+
+export const OwnerLeaderboard: React.FC<OwnerLeaderboardProps> = ({ leaderboard }) => {
+  const [open, setOpen] = useState(false);
+  const { concentration } = leaderboard;
+
+  return (
+    <div className="bg-[#2a2a2a] p-2 sm:p-3 rounded-lg mb-3 sm:mb-5 text-sm">
+      <button className="w-full flex justify-between text-left" onClick={() => setOpen(!open)}>
+        <span className="text-gray-400">
+          {leaderboard.owners} wallet{leaderboard.owners === 1 ? '' : 's'} · top 5 hold{' '}
+          <span className="text-green-500">{percent(concentration.buyTop5)}</span> of buys /{' '}
+          <span className="text-red-500">{percent(concentration.sellTop5)}</span> of sells
+        </span>
+        <span className="text-gray-500">{open ? '▲' : '▼'}</span>
+      </button>
+
+      {open && (
+        <div className="mt-3 space-y-3">
+          <div className="text-gray-400">
+            Top 10: {percent(concentration.buyTop10)} of buy volume, {percent(concentration.sellTop10)} of sell volume
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <h3 className="text-green-500 mb-1">Largest buyers</h3>
+              <ol className="space-y-1">
+                {leaderboard.buyers.map((owner, i) => (
+                  <OwnerRow key={owner.owner} owner={owner} usdc={owner.buyUSDC} rank={i + 1} />
+                ))}
+              </ol>
+            </div>
+            <div>
+              <h3 className="text-red-500 mb-1">Largest sellers</h3>
+              <ol className="space-y-1">
+                {leaderboard.sellers.map((owner, i) => (
+                  <OwnerRow key={owner.owner} owner={owner} usdc={owner.sellUSDC} rank={i + 1} />
+                ))}
+              </ol>
+            </div>
+          </div>
+          {leaderboard.twoSided.length > 0 && (
+            <div className="text-yellow-400">
+              ⇄ {leaderboard.twoSided.length} wallet{leaderboard.twoSided.length === 1 ? '' : 's'} DCA in both directions
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,231 @@
+import React, { useEffect, useRef, useState } from 'react';
+import BN from 'bn.js';
+import type { Position, PositionAction, PositionBalances, TxStatus } from '../types/dca';
+import { explorerUrl } from '../config/cluster';
+import { useDataSource } from '../hooks/useDataSource';
+import { useWallet } from '../hooks/useWallet';
+import { applyPositionAction } from '../utils/positionActions';
+import { formatTokenAmount, parseUnits } from '../utils/amounts';
+
+interface PositionActionsProps {
+  position: Position;
+  // Called with what the position should now look like (null once closed): when the
+  // transaction is sent, and with the original again if it then fails
+  onChange?: (id: string, next: Position | null) => void;
+}
+
+const ACTIONS: Record<PositionAction, { label: string; done: string }> = {
+  'withdraw-output': { label: 'Withdraw output', done: 'Output withdrawn' },
+  'withdraw-input': { label: 'Withdraw remaining input', done: 'Input withdrawn' },
+  deposit: { label: 'Top up', done: 'Position topped up' },
+  close: { label: 'Close position', done: 'Position closed' }
+};
+
+const TX_STATUS: Record<Exclude<TxStatus, 'confirmed'>, string> = {
+  signing: 'Waiting for wallet signature...',
+  sending: 'Sending transaction...',
+  confirming: 'Confirming...',
+  failed: 'Transaction failed'
+};
+
+const buttonClass = 'bg-[#3a3a3a] px-2 py-1 rounded hover:bg-[#4a4a4a] disabled:opacity-50 text-xs sm:text-sm';
+
+export const PositionActions: React.FC<PositionActionsProps> = ({ position, onChange }) => {
+  const dataSource = useDataSource();
+  const signer = useWallet();
+  const [action, setAction] = useState<PositionAction | null>(null);
+  const [balances, setBalances] = useState<PositionBalances | null>(null);
+  const [topUp, setTopUp] = useState('');
+  const [status, setStatus] = useState<TxStatus | null>(null);
+  const [signature, setSignature] = useState<string | undefined>();
+  const [error, setError] = useState<string | null>(null);
+  // Polling replaces the position object every few seconds, that shouldn't reload the balances
+  const latestPosition = useRef(position);
+  useEffect(() => {
+    latestPosition.current = position;
+  }, [position]);
+
+  // Expected amounts come from the DCA's token accounts, so read them fresh for each dialog
+  useEffect(() => {
+    if (!action || !dataSource.getPositionBalances) {
+      return;
+    }
+    let cancelled = false;
+    setBalances(null);
+    dataSource.getPositionBalances(latestPosition.current)
+      .then(result => {
+        if (!cancelled) {
+          setBalances(result);
+        }
+      })
+      .catch(err => {
+        console.error('Failed to load position balances:', err);
+        if (!cancelled) {
+          setError('Could not load the current balances');
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [action, dataSource, position.publicKey]);
+
+  if (!signer || signer.publicKey.toString() !== position.owner || !dataSource.managePosition || dataSource.readOnly) {
+    return null;
+  }
+
+  const open = (next: PositionAction) => {
+    setAction(next);
+    setTopUp('');
+    setStatus(null);
+    setSignature(undefined);
+    setError(null);
+  };
+
+  let topUpAmount: BN | null = null;
+  let topUpError: string | null = null;
+  if (action === 'deposit' && topUp.trim()) {
+    try {
+      topUpAmount = parseUnits(topUp, position.inputDecimals);
+      if (topUpAmount.isZero()) {
+        topUpError = 'Enter an amount greater than 0';
+      }
+    } catch (err) {
+      topUpError = err instanceof Error ? err.message : 'Not a valid amount';
+    }
+  }
+
+  const busy = status !== null && status !== 'confirmed' && status !== 'failed';
+  const nothingToWithdraw =
+    (action === 'withdraw-output' && balances?.output.raw === '0') ||
+    (action === 'withdraw-input' && balances?.input.raw === '0');
+  const canConfirm = action === 'deposit'
+    ? !!topUpAmount && !topUpError
+    : !!balances && !nothingToWithdraw;
+
+  const handleConfirm = async () => {
+    if (!action || !dataSource.managePosition) {
+      return;
+    }
+    setError(null);
+    setSignature(undefined);
+    const amount = action === 'deposit'
+      ? topUpAmount ?? undefined
+      : action === 'withdraw-output' && balances ? new BN(balances.output.raw) : undefined;
+    const next = applyPositionAction(position, action, amount);
+    let applied = false;
+    try {
+      await dataSource.managePosition({ position, action, amount: topUp }, signer, (txStatus, sig) => {
+        setStatus(txStatus);
+        if (sig) {
+          setSignature(sig);
+        }
+        // Show the result as soon as the transaction is out. Closing waits for the
+        // confirmation: removing the card unmounts this dialog and can't be undone in place.
+        if (txStatus === 'confirming' && action !== 'close' && !applied) {
+          applied = true;
+          onChange?.(position.id, next);
+        }
+      });
+      if (!applied) {
+        onChange?.(position.id, next);
+      }
+    } catch (err) {
+      console.error(`Failed to ${action} position:`, err);
+      if (applied) {
+        onChange?.(position.id, position);
+      }
+      setStatus('failed');
+      setError(err instanceof Error ? err.message : 'Transaction failed');
+    }
+  };
+
+  const formatBalance = (side: 'input' | 'output') =>
+    balances ? formatTokenAmount(balances[side], 6) : '…';
+
+  return (
+    <>
+      <div className="mt-2 flex flex-wrap gap-2">
+        {(Object.keys(ACTIONS) as PositionAction[]).map(key => (
+          <button key={key} className={buttonClass} onClick={() => open(key)}>
+            {ACTIONS[key].label}
+          </button>
+        ))}
+      </div>
+
+      {action && (
+        <div className="fixed inset-0 z-10 bg-black/60 flex items-center justify-center p-4">
+          <div className="bg-[#1a1a1a] rounded-lg p-4 w-full max-w-md space-y-3 text-sm sm:text-base">
+            <h3 className="text-lg font-bold">{ACTIONS[action].label}</h3>
+
+            <div className="bg-[#2a2a2a] p-2 sm:p-3 rounded-lg text-gray-300 space-y-1">
+              {action === 'withdraw-output' && (
+                <div>You receive {formatBalance('output')} {position.outputToken}. The schedule keeps running.</div>
+              )}
+              {action === 'withdraw-input' && (
+                <div>
+                  You receive {formatBalance('input')} {position.inputToken}. The remaining{' '}
+                  {position.progress.cyclesRemaining} cycles won't run.
+                </div>
+              )}
+              {action === 'deposit' && (
+                <>
+                  <label className="block space-y-1">
+                    <span className="text-gray-400">Add {position.inputToken}</span>
+                    <input
+                      inputMode="decimal"
+                      value={topUp}
+                      onChange={(e) => setTopUp(e.target.value)}
+                      className="bg-[#3a3a3a] px-3 py-1 rounded w-full"
+                    />
+                  </label>
+                  {topUpError && <div className="text-red-500 text-xs">{topUpError}</div>}
+                  {topUpAmount && !topUpError && position.amountPerCycle > 0 && (
+                    <div className="text-gray-400">
+                      About {Math.ceil(Number(topUp) / position.amountPerCycle)} more cycles of {position.amountPerCycle}{' '}
+                      {position.inputToken}
+                    </div>
+                  )}
+                </>
+              )}
+              {action === 'close' && (
+                <div>
+                  You receive {formatBalance('input')} {position.inputToken} and {formatBalance('output')}{' '}
+                  {position.outputToken}, and the account's rent is returned. The position can't be reopened.
+                </div>
+              )}
+              {nothingToWithdraw && <div className="text-yellow-500">Nothing to withdraw yet</div>}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3">
+              <button
+                className="bg-[#3a3a3a] px-3 py-1 sm:px-4 sm:py-2 rounded hover:bg-[#4a4a4a] disabled:opacity-50"
+                disabled={busy || !canConfirm || status === 'confirmed'}
+                onClick={handleConfirm}
+              >
+                Confirm
+              </button>
+              <button
+                className="text-gray-400 hover:text-gray-200 disabled:opacity-50"
+                disabled={busy}
+                onClick={() => setAction(null)}
+              >
+                {status === 'confirmed' ? 'Done' : 'Cancel'}
+              </button>
+              {status && (
+                <span className={status === 'failed' ? 'text-red-500' : status === 'confirmed' ? 'text-green-500' : 'text-gray-300'}>
+                  {status === 'confirmed' ? ACTIONS[action].done : TX_STATUS[status]}
+                </span>
+              )}
+              {signature && (
+                <a href={explorerUrl('tx', signature)} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300">
+                  View transaction ↗
+                </a>
+              )}
+            </div>
+            {error && <div className="text-red-500 text-sm">{error}</div>}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import type { Position, PriceBoundStatus } from '../types/dca';
+import { Amount } from './Amount';
+import { FillTimeline } from './FillTimeline';
+import { PositionActions } from './PositionActions';
+import { navigate, positionPath, walletPath } from '../hooks/useRoute';
+import { formatFrequency, formatRelative } from '../utils/format';
+import { explorerUrl } from '../config/cluster';
+
+interface PositionCardProps {
+  position: Position;
+  onChange?: (id: string, next: Position | null) => void;
+}
+
+const PRICE_STATUS: Record<PriceBoundStatus, { label: string; className: string }> = {
+  executing: { label: 'Executing', className: 'text-green-500' },
+  waiting: { label: '⏸ Waiting for price', className: 'text-yellow-500' },
+  'never-fill': { label: '⏸ Won\'t fill at current price', className: 'text-red-500' },
+  unknown: { label: 'Price unknown', className: 'text-gray-500' }
+};
+
+const formatBound = (bound?: number) => (bound === undefined ? 'any' : bound.toPrecision(4));
+
+export const PositionCard: React.FC<PositionCardProps> = ({ position, onChange }) => {
+  const [showFills, setShowFills] = useState(false);
+
+  return (
+    <div 
+      className={`bg-[#2a2a2a] p-2 sm:p-4 rounded-lg border-l-4 ${
+        position.type === 'BUY' ? 'border-green-500' : 'border-red-500'
+      }`}
+    >
+      <div className="flex justify-between mb-2">
+        <span className="text-sm sm:text-base">
+          {position.type === 'BUY' ? '🟢 BUY' : '🔴 SELL'}
+        </span>
+        <span className="text-gray-500 text-xs sm:text-sm">
+          {new Date(position.lastUpdate).toLocaleString()}
+        </span>
+      </div>
+      <div className="space-y-1 text-sm">
+        <div>
+          Input: {position.inputToken} (
+          <Amount
+            value={position.inputAmount}
+            amount={position.amounts?.inputAmount}
+            maximumFractionDigits={position.inputDecimals}
+          />
+          )
+        </div>
+        <div>Output: {position.outputToken}</div>
+        <div>
+          Owner:{' '}
+          <a
+            href={walletPath(position.owner)}
+            onClick={(e) => {
+              e.preventDefault();
+              navigate(walletPath(position.owner));
+            }}
+            className="text-blue-400 hover:text-blue-300"
+          >
+            {position.owner.slice(0, 4)}…{position.owner.slice(-4)}
+          </a>
+        </div>
+        <div>
+          <div className="flex justify-between text-xs text-gray-400 mb-1">
+            <span>
+              {position.progress.cyclesCompleted}/{position.progress.totalCycles} cycles
+            </span>
+            <span>{position.progress.percentComplete.toFixed(1)}%</span>
+          </div>
+          <div className="h-1.5 bg-[#3a3a3a] rounded-full overflow-hidden">
+            <div
+              className={`h-full ${position.type === 'BUY' ? 'bg-green-500' : 'bg-red-500'}`}
+              style={{ width: `${Math.min(100, position.progress.percentComplete)}%` }}
+            />
+          </div>
+        </div>
+        <div>
+          Left to spend:{' '}
+          <Amount value={position.progress.amountRemaining} amount={position.amounts?.amountRemaining} />{' '}
+          {position.inputToken} ({position.progress.cyclesRemaining} cycles)
+        </div>
+        <div>Frequency: {formatFrequency(position.cycleFrequency)}</div>
+        {position.progress.cyclesRemaining > 0 && (
+          <div>
+            Next cycle: {new Date(position.progress.nextCycleAt).toLocaleString()}{' '}
+            <span className="text-gray-500">({formatRelative(position.progress.nextCycleAt)})</span>
+          </div>
+        )}
+        {position.progress.estimatedCompletion && (
+          <div>
+            Est. completion: {new Date(position.progress.estimatedCompletion).toLocaleString()}
+          </div>
+        )}
+      
+        <div className="mt-2 pt-2 border-t border-gray-700">
+          <div className="flex justify-between">
+            <span>
+              Price Range: {formatBound(position.priceRange.min)} – {formatBound(position.priceRange.max)} {position.priceToken}
+            </span>
+            <span className={PRICE_STATUS[position.priceStatus].className}>
+              {PRICE_STATUS[position.priceStatus].label}
+            </span>
+          </div>
+          {position.currentPrice && (
+            <div>Current Price: {position.currentPrice.toFixed(4)} {position.priceToken}</div>
+          )}
+          {position.estimatedOutput && (
+            <div>Est. Output: ~{position.estimatedOutput.toFixed(2)} {position.outputToken}</div>
+          )}
+        </div>
+      
+        <div className="mt-2 flex gap-4">
+          <a
+            href={positionPath(position.publicKey)}
+            onClick={(e) => {
+              e.preventDefault();
+              navigate(positionPath(position.publicKey));
+            }}
+            className="text-blue-400 hover:text-blue-300"
+          >
+            Details
+          </a>
+          <a 
+            href={explorerUrl('dca', position.publicKey)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-blue-400 hover:text-blue-300"
+          >
+            View on explorer ↗
+          </a>
+          <button
+            className="text-blue-400 hover:text-blue-300"
+            onClick={() => setShowFills(!showFills)}
+          >
+            {showFills ? 'Hide fills' : 'Show fills'}
+          </button>
+        </div>
+
+        <PositionActions position={position} onChange={onChange} />
+
+        {showFills && <FillTimeline position={position} />}
+      </div>
+    </div>
+  );
+};
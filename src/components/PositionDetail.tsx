@@ -0,0 +1,334 @@
+import React, { useEffect, useState } from 'react';
+import type { AccountTransaction, Position } from '../types/dca';
+import { useDataSource } from '../hooks/useDataSource';
+import { useNow } from '../hooks/useNow';
+import { navigate, walletPath } from '../hooks/useRoute';
+import { describeError } from '../api/errors';
+import { explorerUrl } from '../config/cluster';
+import { decodedFields, derivedMetrics } from '../utils/positionFields';
+import { formatDuration, formatFrequency, formatRelative } from '../utils/format';
+import { LoadingSpinner } from './LoadingSpinner';
+import { Amount } from './Amount';
+import { FillTimeline } from './FillTimeline';
+import { PositionActions } from './PositionActions';
+
+interface PositionDetailProps {
+  address: string;
+}
+
+const TRANSACTION_LIMIT = 20;
+// Give the keeper a moment after the cycle is due before reading the account again
+const CYCLE_SETTLE_DELAY = 15000;
+// How often to look again while a cycle is overdue
+const OVERDUE_POLL = 30000;
+// Far-off cycles are re-checked hourly, setTimeout can't wait past ~24.8 days anyway
+const MAX_WAIT = 3600000;
+
+const Metric: React.FC<{ label: string; children: React.ReactNode; hint?: React.ReactNode }> = ({
+  label,
+  children,
+  hint
+}) => (
+  <div className="bg-[#2a2a2a] p-2 sm:p-3 rounded-lg">
+    <span className="text-gray-400 text-sm">{label}</span>
+    <p className="text-lg font-bold break-all">{children}</p>
+    {hint && <span className="text-gray-500 text-xs">{hint}</span>}
+  </div>
+);
+
+export const PositionDetail: React.FC<PositionDetailProps> = ({ address }) => {
+  const [position, setPosition] = useState<Position | null>(null);
+  const [transactions, setTransactions] = useState<AccountTransaction[] | null>(null);
+  const [txError, setTxError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloads, setReloads] = useState(0);
+  const dataSource = useDataSource();
+  const now = useNow();
+
+  // Don't show the previous account under a new address
+  useEffect(() => {
+    setPosition(null);
+    setTransactions(null);
+    setTxError(null);
+    setError(null);
+  }, [address]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    dataSource.getPosition(address)
+      .then(async next => {
+        if (cancelled) {
+          return;
+        }
+        setPosition(next);
+        setError(null);
+        if (!dataSource.getPositionTransactions) {
+          return;
+        }
+        try {
+          const txs = await dataSource.getPositionTransactions(next, TRANSACTION_LIMIT);
+          if (!cancelled) {
+            setTransactions(txs);
+            setTxError(null);
+          }
+        } catch (err) {
+          console.error('Failed to load transactions:', err);
+          if (!cancelled) {
+            setTxError(`Failed to load transactions. ${describeError(err)}`);
+          }
+        }
+      })
+      .catch(err => {
+        console.error('Failed to fetch position:', err);
+        if (!cancelled) {
+          setError(`Failed to fetch position. ${describeError(err)}`);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [address, dataSource, reloads]);
+
+  // Read the account again once the next cycle should have run
+  const nextCycleAt = position && position.progress.cyclesRemaining > 0 ? position.progress.nextCycleAt : null;
+  useEffect(() => {
+    if (nextCycleAt === null) {
+      return;
+    }
+    const delay = Math.min(Math.max(nextCycleAt + CYCLE_SETTLE_DELAY - Date.now(), OVERDUE_POLL), MAX_WAIT);
+    const timer = setTimeout(() => setReloads(count => count + 1), delay);
+    return () => clearTimeout(timer);
+  }, [nextCycleAt, reloads]);
+
+  const handleChange = (_id: string, next: Position | null) => {
+    if (next) {
+      setPosition(next);
+    } else if (position) {
+      // Closed, the account is gone
+      navigate(walletPath(position.owner));
+    }
+  };
+
+  const metrics = position?.raw && derivedMetrics(position, position.raw);
+  const countdown = nextCycleAt === null
+    ? null
+    : nextCycleAt > now
+      ? formatDuration((nextCycleAt - now) / 1000)
+      : `due ${formatRelative(nextCycleAt, now)}, waiting for a keeper`;
+
+  return (
+    <div className="container mx-auto p-2 sm:p-5">
+      {loading && !position && <LoadingSpinner />}
+
+      <div className="bg-[#1a1a1a] p-3 sm:p-4 mb-3 sm:mb-5 rounded-lg border-l-4 border-yellow-500 flex flex-col sm:flex-row sm:justify-between sm:items-center gap-2">
+        <div className="text-gray-300 text-sm sm:text-base break-all">
+          DCA account {address}
+        </div>
+        <div className="flex gap-2">
+          <button
+            className="bg-[#3a3a3a] px-3 py-1 sm:px-4 sm:py-2 rounded hover:bg-[#4a4a4a] text-sm sm:text-base"
+            onClick={() => setReloads(count => count + 1)}
+          >
+            Refresh
+          </button>
+          <button
+            className="bg-[#3a3a3a] px-3 py-1 sm:px-4 sm:py-2 rounded hover:bg-[#4a4a4a] text-sm sm:text-base"
+            onClick={() => navigate('/')}
+          >
+            ← Dashboard
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="text-red-500 mb-3">{error}</div>}
+
+      {position && (
+        <>
+          {/* Overview */}
+          <section className="bg-[#1a1a1a] rounded-lg p-3 sm:p-5 mb-3 sm:mb-5">
+            <div className="flex flex-col sm:flex-row sm:justify-between gap-1 mb-3 sm:mb-4">
+              <h2 className="text-lg sm:text-xl font-bold">
+                {position.type === 'BUY' ? '🟢 BUY' : '🔴 SELL'} {position.token} · {position.inputToken} →{' '}
+                {position.outputToken}
+              </h2>
+              <div className="flex gap-4 text-sm">
+                <a
+                  href={walletPath(position.owner)}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    navigate(walletPath(position.owner));
+                  }}
+                  className="text-blue-400 hover:text-blue-300"
+                >
+                  Owner {position.owner.slice(0, 4)}…{position.owner.slice(-4)}
+                </a>
+                <a
+                  href={explorerUrl('dca', position.publicKey)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-400 hover:text-blue-300"
+                >
+                  View on explorer ↗
+                </a>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-2 sm:gap-4">
+              <Metric
+                label="Next cycle"
+                hint={nextCycleAt !== null && new Date(nextCycleAt).toLocaleString()}
+              >
+                {countdown ?? 'Finished'}
+              </Metric>
+              <Metric
+                label="Progress"
+                hint={`${position.progress.cyclesCompleted}/${position.progress.totalCycles} cycles, ${formatFrequency(position.cycleFrequency)}`}
+              >
+                {position.progress.percentComplete.toFixed(1)}%
+              </Metric>
+              <Metric label="Per cycle">
+                <Amount
+                  value={position.amountPerCycle}
+                  amount={position.amounts?.amountPerCycle}
+                  maximumFractionDigits={position.inputDecimals}
+                />{' '}
+                {position.inputToken}
+              </Metric>
+              <Metric
+                label="Left to spend"
+                hint={position.inputPriceUSD !== undefined &&
+                  `≈ $${(position.progress.amountRemaining * position.inputPriceUSD).toLocaleString(undefined, { maximumFractionDigits: 2 })}`}
+              >
+                <Amount value={position.progress.amountRemaining} amount={position.amounts?.amountRemaining} />{' '}
+                {position.inputToken}
+              </Metric>
+              {metrics && (
+                <>
+                  <Metric label={`${position.outputToken} received`}>
+                    <Amount value={metrics.outputReceived.value} amount={metrics.outputReceived} />
+                  </Metric>
+                  <Metric label="Not yet withdrawn" hint={position.outputToken}>
+                    <Amount value={metrics.outputUnclaimed.value} amount={metrics.outputUnclaimed} />
+                  </Metric>
+                  <Metric label="Average price" hint={`${position.priceToken} per ${position.token}`}>
+                    {metrics.averagePrice !== undefined ? metrics.averagePrice.toPrecision(6) : '–'}
+                  </Metric>
+                  <Metric
+                    label="Age"
+                    hint={metrics.createdAt !== undefined && new Date(metrics.createdAt).toLocaleString()}
+                  >
+                    {metrics.createdAt !== undefined ? formatDuration((now - metrics.createdAt) / 1000) : '–'}
+                  </Metric>
+                </>
+              )}
+              <Metric
+                label="Current price"
+                hint={`range ${position.priceRange.min ?? 'any'} – ${position.priceRange.max ?? 'any'}`}
+              >
+                {position.currentPrice !== undefined
+                  ? `${position.currentPrice.toPrecision(6)} ${position.priceToken}`
+                  : '–'}
+              </Metric>
+              {position.progress.estimatedCompletion && (
+                <Metric label="Est. completion" hint={formatRelative(position.progress.estimatedCompletion, now)}>
+                  {new Date(position.progress.estimatedCompletion).toLocaleDateString()}
+                </Metric>
+              )}
+            </div>
+
+            <PositionActions position={position} onChange={handleChange} />
+          </section>
+
+          {/* Decoded account */}
+          <section className="bg-[#1a1a1a] rounded-lg p-3 sm:p-5 mb-3 sm:mb-5">
+            <h2 className="text-lg sm:text-xl font-bold mb-3">On-chain account</h2>
+            {position.raw ? (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-400 border-b border-gray-700">
+                      <th className="py-1 pr-4">Field</th>
+                      <th className="py-1 pr-4">Raw</th>
+                      <th className="py-1">Readable</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {decodedFields(position, position.raw).map(field => (
+                      <tr key={field.name} className="border-b border-gray-800">
+                        <td className="py-1 pr-4 font-mono text-gray-300">{field.name}</td>
+                        <td className="py-1 pr-4 font-mono break-all">
+                          {field.address ? (
+                            <a
+                              href={explorerUrl('account', field.raw)}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-blue-400 hover:text-blue-300"
+                            >
+                              {field.raw}
+                            </a>
+                          ) : field.raw}
+                        </td>
+                        <td className="py-1">{field.readable}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <div className="text-gray-500 text-sm">This data source doesn't provide the raw account fields.</div>
+            )}
+          </section>
+
+          {/* History */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-3 sm:gap-5">
+            <section className="bg-[#1a1a1a] rounded-lg p-3 sm:p-5">
+              <h2 className="text-lg sm:text-xl font-bold mb-1">Fills</h2>
+              <FillTimeline position={position} />
+            </section>
+            <section className="bg-[#1a1a1a] rounded-lg p-3 sm:p-5">
+              <h2 className="text-lg sm:text-xl font-bold mb-3">Recent transactions</h2>
+              {!dataSource.getPositionTransactions && (
+                <div className="text-gray-500 text-sm">Not available from this data source.</div>
+              )}
+              {txError && <div className="text-red-500 text-sm">{txError}</div>}
+              {transactions && transactions.length === 0 && (
+                <div className="text-gray-500 text-sm">No transactions found</div>
+              )}
+              {transactions && transactions.length > 0 && (
+                <ol className="space-y-1 text-xs sm:text-sm">
+                  {transactions.map(tx => (
+                    <li key={tx.signature} className="flex justify-between gap-2">
+                      <span className="text-gray-500">
+                        {tx.timestamp ? new Date(tx.timestamp).toLocaleString() : `slot ${tx.slot}`}
+                      </span>
+                      <a
+                        href={explorerUrl('tx', tx.signature)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-400 hover:text-blue-300 font-mono truncate"
+                      >
+                        {tx.signature.slice(0, 8)}…{tx.signature.slice(-8)}
+                      </a>
+                      <span className={tx.failed ? 'text-red-500' : 'text-green-500'}>
+                        {tx.failed ? 'failed' : 'ok'}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </section>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import type { Position, PositionFilters, PositionSortKey } from '../types/dca';
+import { positionSizeUSDC } from '../utils/positionFilters';
+import { formatFrequency, formatRelative } from '../utils/format';
+import { navigate, positionPath, walletPath } from '../hooks/useRoute';
+
+interface PositionsTableProps {
+  positions: Position[];
+  filters: PositionFilters;
+  onSort: (key: PositionSortKey) => void;
+}
+
+const ROW_HEIGHT = 36;
+const VIEWPORT_HEIGHT = 400;
+// Extra rows rendered above and below the viewport to avoid blank flashes while scrolling
+const OVERSCAN = 10;
+
+const COLUMNS: { label: string; sortKey?: PositionSortKey; className: string }[] = [
+  { label: 'Type', className: 'w-14' },
+  { label: 'Owner', sortKey: 'owner', className: 'w-28' },
+  { label: 'Size $', sortKey: 'size', className: 'w-24 text-right' },
+  { label: 'Per cycle', sortKey: 'amountPerCycle', className: 'w-24 text-right' },
+  { label: 'Frequency', sortKey: 'cycleFrequency', className: 'w-24' },
+  { label: 'Next cycle', sortKey: 'nextCycle', className: 'w-24' },
+  { label: 'Progress', className: 'w-16 text-right' },
+  { label: 'Status', className: 'flex-1' }
+];
+
+// Positions without a USD price have no size to show
+const formatSize = (size: number | undefined) =>
+  size === undefined ? <span className="text-gray-500">unpriced</span> : Math.round(size).toLocaleString();
+
+export const PositionsTable: React.FC<PositionsTableProps> = ({ positions, filters, onSort }) => {
+  const [scrollTop, setScrollTop] = useState(0);
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(positions.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+  const visible = positions.slice(first, last);
+
+  return (
+    <div className="bg-[#2a2a2a] rounded-lg text-xs sm:text-sm overflow-x-auto">
+      <div className="min-w-[640px]">
+        <div className="flex gap-2 px-2 py-2 border-b border-gray-700 text-gray-400">
+          {COLUMNS.map(column => (
+            <div
+              key={column.label}
+              className={`${column.className} ${column.sortKey ? 'cursor-pointer hover:text-white' : ''}`}
+              onClick={() => column.sortKey && onSort(column.sortKey)}
+            >
+              {column.label}
+              {column.sortKey === filters.sortBy && (filters.sortDirection === 'asc' ? ' ↑' : ' ↓')}
+            </div>
+          ))}
+        </div>
+
+        <div
+          className="overflow-y-auto"
+          style={{ height: Math.min(VIEWPORT_HEIGHT, positions.length * ROW_HEIGHT) }}
+          onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        >
+          <div style={{ height: positions.length * ROW_HEIGHT, position: 'relative' }}>
+            {visible.map((position, i) => (
+              <div
+                key={position.id}
+                className="flex gap-2 px-2 items-center border-b border-[#333] absolute left-0 right-0"
+                style={{ top: (first + i) * ROW_HEIGHT, height: ROW_HEIGHT }}
+              >
+                <a
+                  href={positionPath(position.publicKey)}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    navigate(positionPath(position.publicKey));
+                  }}
+                  className={`w-14 hover:underline ${position.type === 'BUY' ? 'text-green-500' : 'text-red-500'}`}
+                  title="Position details"
+                >
+                  {position.type}
+                </a>
+                <div className="w-28 truncate">
+                  <a
+                    href={walletPath(position.owner)}
+                    onClick={(e) => {
+                      e.preventDefault();
+                      navigate(walletPath(position.owner));
+                    }}
+                    className="text-blue-400 hover:text-blue-300"
+                  >
+                    {position.owner.slice(0, 4)}…{position.owner.slice(-4)}
+                  </a>
+                </div>
+                <div className="w-24 text-right">{formatSize(positionSizeUSDC(position))}</div>
+                <div className="w-24 text-right">
+                  {position.amountPerCycle.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                </div>
+                <div className="w-24">{formatFrequency(position.cycleFrequency)}</div>
+                <div className="w-24">
+                  {position.progress.cyclesRemaining > 0 ? formatRelative(position.progress.nextCycleAt) : '—'}
+                </div>
+                <div className="w-16 text-right">{position.progress.percentComplete.toFixed(0)}%</div>
+                <div className="flex-1 truncate text-gray-400">{position.priceStatus}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {positions.length === 0 && (
+          <div className="px-2 py-4 text-gray-500">No positions match the current filters</div>
+        )}
+      </div>
+    </div>
+  );
+};
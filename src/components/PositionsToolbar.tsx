@@ -0,0 +1,115 @@
+import React from 'react';
+import type { PositionFilters, PositionSortKey } from '../types/dca';
+
+export type PositionsView = 'cards' | 'table';
+
+interface PositionsToolbarProps {
+  view: PositionsView;
+  onViewChange: (view: PositionsView) => void;
+  filters: PositionFilters;
+  onFiltersChange: (filters: PositionFilters) => void;
+}
+
+const SORT_OPTIONS: { value: PositionSortKey; label: string }[] = [
+  { value: 'size', label: 'Size' },
+  { value: 'amountPerCycle', label: 'Per cycle' },
+  { value: 'cycleFrequency', label: 'Frequency' },
+  { value: 'nextCycle', label: 'Next cycle' },
+  { value: 'owner', label: 'Owner' }
+];
+
+const parseSize = (value: string) => (value === '' ? undefined : Number(value));
+
+export const PositionsToolbar: React.FC<PositionsToolbarProps> = ({
+  view,
+  onViewChange,
+  filters,
+  onFiltersChange
+}) => {
+  const update = (changes: Partial<PositionFilters>) => onFiltersChange({ ...filters, ...changes });
+  const inputClass = 'bg-[#2a2a2a] px-2 py-1 rounded text-sm';
+
+  return (
+    <div className="bg-[#1a1a1a] p-3 sm:p-4 mb-3 sm:mb-5 rounded-lg flex flex-wrap gap-2 sm:gap-4 items-center text-sm">
+      <div className="flex gap-1">
+        {(['cards', 'table'] as PositionsView[]).map(option => (
+          <button
+            key={option}
+            className={`px-3 py-1 rounded capitalize ${
+              option === view ? 'bg-[#4a4a4a] text-white' : 'bg-[#2a2a2a] text-gray-400 hover:bg-[#3a3a3a]'
+            }`}
+            onClick={() => onViewChange(option)}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+
+      <select
+        value={filters.type}
+        onChange={(e) => update({ type: e.target.value as PositionFilters['type'] })}
+        className={inputClass}
+        aria-label="Type"
+      >
+        <option value="ALL">Buy &amp; sell</option>
+        <option value="BUY">Buy only</option>
+        <option value="SELL">Sell only</option>
+      </select>
+
+      <select
+        value={filters.status}
+        onChange={(e) => update({ status: e.target.value as PositionFilters['status'] })}
+        className={inputClass}
+        aria-label="Status"
+      >
+        <option value="ALL">Any status</option>
+        <option value="executing">Executing</option>
+        <option value="waiting">Waiting for price</option>
+        <option value="never-fill">Won't fill</option>
+        <option value="unknown">Price unknown</option>
+      </select>
+
+      <div className="flex items-center gap-1">
+        <span className="text-gray-400">Size $</span>
+        <input
+          type="number"
+          min={0}
+          value={filters.minSizeUSDC ?? ''}
+          onChange={(e) => update({ minSizeUSDC: parseSize(e.target.value) })}
+          placeholder="min"
+          className={`${inputClass} w-20`}
+        />
+        <span className="text-gray-400">–</span>
+        <input
+          type="number"
+          min={0}
+          value={filters.maxSizeUSDC ?? ''}
+          onChange={(e) => update({ maxSizeUSDC: parseSize(e.target.value) })}
+          placeholder="max"
+          className={`${inputClass} w-20`}
+        />
+      </div>
+
+      <div className="flex items-center gap-1">
+        <span className="text-gray-400">Sort</span>
+        <select
+          value={filters.sortBy}
+          onChange={(e) => update({ sortBy: e.target.value as PositionSortKey })}
+          className={inputClass}
+          aria-label="Sort by"
+        >
+          {SORT_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <button
+          className={`${inputClass} hover:bg-[#3a3a3a]`}
+          onClick={() => update({ sortDirection: filters.sortDirection === 'asc' ? 'desc' : 'asc' })}
+          title="Toggle sort direction"
+        >
+          {filters.sortDirection === 'asc' ? '↑' : '↓'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,23 @@
+import React from 'react';
+import type { PriceQuote } from '../types/dca';
+import { formatRelative } from '../utils/format';
+
+export const PriceBadge: React.FC<{ quote?: PriceQuote }> = ({ quote }) => {
+  if (!quote) {
+    return null;
+  }
+
+  if (quote.price === null) {
+    return <span className="text-xs sm:text-sm text-red-500">Price unavailable</span>;
+  }
+
+  return (
+    <span
+      className="text-xs sm:text-sm text-gray-400"
+      title={`Source: ${quote.source}, fetched ${new Date(quote.timestamp).toLocaleString()}`}
+    >
+      ${quote.price.toPrecision(4)} · {quote.source} · {formatRelative(quote.timestamp)}
+      {quote.stale && <span className="ml-1 text-yellow-500">(stale)</span>}
+    </span>
+  );
+};
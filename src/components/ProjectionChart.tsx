@@ -0,0 +1,99 @@
+import React, { useMemo, useState } from 'react';
+import { Line } from 'react-chartjs-2';
+import type { Position } from '../types/dca';
+import { projectFlow } from '../utils/projection';
+import { chartOptions } from './chartConfig';
+
+interface ProjectionChartProps {
+  positions: Position[];
+}
+
+const PROJECTION_DAYS = [1, 3, 7];
+
+export const ProjectionChart: React.FC<ProjectionChartProps> = ({ positions }) => {
+  const [days, setDays] = useState(1);
+  const points = useMemo(() => projectFlow(positions, days), [positions, days]);
+
+  const totalBuy = points.reduce((sum, point) => sum + point.buyUSDC, 0);
+  const totalSell = points.reduce((sum, point) => sum + point.sellUSDC, 0);
+  const totalWaiting = points.reduce((sum, point) => sum + point.waitingBuyUSDC + point.waitingSellUSDC, 0);
+  const neverFill = positions.filter(position => position.priceStatus === 'never-fill' && position.progress.cyclesRemaining > 0).length;
+
+  const data = {
+    labels: points.map(point => {
+      const date = new Date(point.timestamp);
+      return days > 1 ? `${date.getMonth() + 1}/${date.getDate()} ${date.getHours()}:00` : `${date.getHours()}:00`;
+    }),
+    datasets: [
+      {
+        label: 'Scheduled Buys (USDC)',
+        data: points.map(point => point.buyUSDC),
+        borderColor: '#4CAF50',
+        backgroundColor: 'rgba(76, 175, 80, 0.1)',
+        stepped: true,
+        fill: true,
+        borderWidth: 2
+      },
+      {
+        label: 'Scheduled Sells (USDC)',
+        data: points.map(point => point.sellUSDC),
+        borderColor: '#f44336',
+        backgroundColor: 'rgba(244, 67, 54, 0.1)',
+        stepped: true,
+        fill: true,
+        borderWidth: 2
+      },
+      {
+        label: 'Buys waiting on price bounds (USDC)',
+        data: points.map(point => point.waitingBuyUSDC),
+        borderColor: '#4CAF50',
+        borderDash: [4, 4],
+        stepped: true,
+        fill: false,
+        borderWidth: 1
+      },
+      {
+        label: 'Sells waiting on price bounds (USDC)',
+        data: points.map(point => point.waitingSellUSDC),
+        borderColor: '#f44336',
+        borderDash: [4, 4],
+        stepped: true,
+        fill: false,
+        borderWidth: 1
+      }
+    ]
+  };
+
+  return (
+    <div className="mb-3 sm:mb-5">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-gray-400 text-sm">
+          Next {days}d: <span className="text-green-500">${Math.round(totalBuy).toLocaleString()}</span> buy /{' '}
+          <span className="text-red-500">${Math.round(totalSell).toLocaleString()}</span> sell
+          {totalWaiting > 0 && <>, ${Math.round(totalWaiting).toLocaleString()} waiting on price bounds</>}
+          {neverFill > 0 && (
+            <span title="Price is far outside their bounds">
+              , {neverFill} never-fill order{neverFill === 1 ? '' : 's'} left out
+            </span>
+          )}
+        </span>
+        <div className="flex gap-1">
+          {PROJECTION_DAYS.map(option => (
+            <button
+              key={option}
+              className={`px-2 py-1 rounded text-xs sm:text-sm ${
+                option === days ? 'bg-[#4a4a4a] text-white' : 'bg-[#2a2a2a] text-gray-400 hover:bg-[#3a3a3a]'
+              }`}
+              onClick={() => setDays(option)}
+            >
+              {option}d
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="bg-[#2a2a2a] p-2 sm:p-4 rounded-lg h-[250px] sm:h-[300px]">
+        <Line data={data} options={chartOptions} />
+      </div>
+    </div>
+  );
+};
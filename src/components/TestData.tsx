@@ -1,12 +1,12 @@
 import { useEffect } from 'react';
-import { jupiterDCA } from '../api/jupiter';
+import { dataSources } from '../api/dataSource';
 
 export const TestData = () => {
   useEffect(() => {
     const testData = async () => {
       try {
         console.log('Testing data fetch...');
-        const data = await jupiterDCA.getDCAAccounts();
+        const data = await dataSources.current.getDCAAccounts();
         console.log('Got data:', data);
       } catch (error) {
         console.error('Test failed:', error);
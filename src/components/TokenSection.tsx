@@ -0,0 +1,226 @@
+import React from 'react';
+import { Line } from 'react-chartjs-2';
+import type {
+  ChartDataPoint,
+  ChartRange,
+  TokenSummary,
+  Position,
+  PositionFilters,
+  PositionSortKey,
+  TrackedToken
+} from '../types/dca';
+import { PositionCard } from './PositionCard';
+import { Amount } from './Amount';
+import { chartOptions } from './chartConfig';
+import { ProjectionChart } from './ProjectionChart';
+import { PriceBadge } from './PriceBadge';
+import { PositionsTable } from './PositionsTable';
+import { OwnerLeaderboard } from './OwnerLeaderboard';
+import type { PositionsView } from './PositionsToolbar';
+
+interface TokenSectionProps {
+  token: TrackedToken;
+  summary?: TokenSummary;
+  chartData?: ChartDataPoint[];
+  chartRange: ChartRange;
+  onChartRangeChange: (range: ChartRange) => void;
+  // All of the token's positions, for the projection
+  positions: Position[];
+  // The filtered and sorted subset shown in the list
+  visiblePositions: Position[];
+  view: PositionsView;
+  filters: PositionFilters;
+  onSort: (key: PositionSortKey) => void;
+  onPositionChange?: (id: string, next: Position | null) => void;
+  onRemove?: () => void;
+}
+
+// Format the sell volume
+const formatVolume = (volume: number) => Math.round(volume);
+
+const CHART_RANGES: ChartRange[] = ['1h', '24h', '7d', '30d'];
+
+const formatTimestamp = (timestamp: number, range: ChartRange) => {
+  const date = new Date(timestamp);
+  const time = `${date.getHours()}:${date.getMinutes().toString().padStart(2, '0')}`;
+  return range === '7d' || range === '30d'
+    ? `${date.getMonth() + 1}/${date.getDate()} ${time}`
+    : time;
+};
+
+const createChartData = (points: ChartDataPoint[] = [], range: ChartRange) => {
+  if (!points.length) {
+    return {
+      labels: [],
+      datasets: []
+    };
+  }
+  
+  return {
+    labels: points.map(point => formatTimestamp(point.timestamp, range)),
+    datasets: [
+      {
+        label: 'Buy Volume',
+        data: points.map(point => point.buyVolume),
+        borderColor: '#4CAF50',
+        backgroundColor: 'rgba(76, 175, 80, 0.1)',
+        tension: 0.4,
+        fill: true,
+        borderWidth: 2
+      },
+      {
+        label: 'Sell Volume',
+        data: points.map(point => point.sellVolume),
+        borderColor: '#f44336',
+        backgroundColor: 'rgba(244, 67, 54, 0.1)',
+        tension: 0.4,
+        fill: true,
+        borderWidth: 2
+      }
+    ]
+  };
+};
+
+export const TokenSection: React.FC<TokenSectionProps> = ({
+  token,
+  summary,
+  chartData,
+  chartRange,
+  onChartRangeChange,
+  positions,
+  visiblePositions,
+  view,
+  filters,
+  onSort,
+  onPositionChange,
+  onRemove
+}) => (
+  <section className="bg-[#1a1a1a] rounded-lg p-3 sm:p-5">
+    <div className="flex justify-between items-center mb-3 sm:mb-4">
+      <div className="flex items-baseline gap-3">
+        <h2 className="text-lg sm:text-xl font-bold">{token.symbol} DCA</h2>
+        <PriceBadge quote={summary?.price} />
+      </div>
+      {onRemove && (
+        <button
+          className="text-gray-500 hover:text-gray-300 text-sm"
+          onClick={onRemove}
+        >
+          Remove
+        </button>
+      )}
+    </div>
+    <div className="grid grid-cols-2 gap-2 sm:gap-4 mb-3 sm:mb-5">
+      {/* Buy Stats */}
+      <div className="bg-[#2a2a2a] p-2 sm:p-4 rounded-lg">
+        <div className="flex items-center gap-2 mb-2">
+          <div className="w-2 h-2 rounded-full bg-green-500"></div>
+          <span className="text-gray-400">Buy Orders</span>
+        </div>
+        <p className="text-xl font-bold">{summary?.buyOrders}</p>
+        <div className="mt-4">
+          <span className="text-gray-400">Buy Volume</span>
+          <p className="text-xl font-bold">
+            {summary && summary.buyVolume === undefined
+              ? <span title="Buys are funded with more than one asset">mixed</span>
+              : <Amount value={summary?.buyVolume ?? 0} amount={summary?.amounts?.buyVolume} />}
+          </p>
+          <p className="text-sm text-gray-500">${summary?.buyVolumeUSDC.toLocaleString()} USDC</p>
+          {summary?.buyVolume === undefined && summary?.buyVolumeUSD !== undefined && (
+            <p className="text-sm text-gray-500">${Math.round(summary.buyVolumeUSD).toLocaleString()} queued across all assets</p>
+          )}
+          {!!summary?.unpricedBuys && (
+            <p className="text-sm text-yellow-500">
+              {summary.unpricedBuys} unpriced order{summary.unpricedBuys === 1 ? '' : 's'} left out of the USD totals
+            </p>
+          )}
+        </div>
+      </div>
+
+      {/* Sell Stats */}
+      <div className="bg-[#2a2a2a] p-2 sm:p-4 rounded-lg">
+        <div className="flex items-center gap-2 mb-2">
+          <div className="w-2 h-2 rounded-full bg-red-500"></div>
+          <span className="text-gray-400">Sell Orders</span>
+        </div>
+        <p className="text-xl font-bold">{summary?.sellOrders}</p>
+        <div className="mt-4">
+          <span className="text-gray-400">Sell Volume</span>
+          <p className="text-xl font-bold">
+            <Amount
+              value={formatVolume(summary?.sellVolume ?? 0)}
+              amount={summary?.amounts?.sellVolume}
+              maximumFractionDigits={0}
+            />
+          </p>
+          {summary && summary.sellVolumeUSDC === undefined ? (
+            <p className="text-sm text-red-500">USDC value unavailable</p>
+          ) : (
+            <p className="text-sm text-gray-500">
+              ${summary?.sellVolumeUSDC?.toLocaleString()} USDC
+              {summary?.price?.stale && <span className="text-yellow-500"> (stale price)</span>}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+
+    {summary?.byCounterAsset && Object.keys(summary.byCounterAsset).length > 0 && (
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs sm:text-sm text-gray-400 mb-3 sm:mb-5">
+        <span>By counter asset:</span>
+        {Object.entries(summary.byCounterAsset).map(([symbol, breakdown]) => (
+          <span key={breakdown.mint}>
+            {symbol}{' '}
+            <span className="text-green-500">{breakdown.buyOrders} · ${Math.round(breakdown.buyUSD).toLocaleString()}</span>
+            {' / '}
+            <span className="text-red-500">{breakdown.sellOrders} · ${Math.round(breakdown.sellUSD).toLocaleString()}</span>
+          </span>
+        ))}
+      </div>
+    )}
+
+    {summary?.blocked && summary.blocked.orders > 0 && (
+      <div className="bg-[#2a2a2a] p-2 sm:p-3 rounded-lg mb-3 sm:mb-5 text-sm border-l-4 border-yellow-500">
+        ⏸ {summary.blocked.orders} order{summary.blocked.orders === 1 ? '' : 's'} paused by price bounds:{' '}
+        <span className="text-green-500">${Math.round(summary.blocked.buyUSDC).toLocaleString()}</span> buy /{' '}
+        <span className="text-red-500">${Math.round(summary.blocked.sellUSDC).toLocaleString()}</span> sell blocked
+      </div>
+    )}
+
+    {summary?.leaderboard && summary.leaderboard.owners > 0 && (
+      <OwnerLeaderboard leaderboard={summary.leaderboard} />
+    )}
+
+    {/* Chart */}
+    <div className="flex gap-1 mb-2">
+      {CHART_RANGES.map(range => (
+        <button
+          key={range}
+          className={`px-2 py-1 rounded text-xs sm:text-sm ${
+            range === chartRange ? 'bg-[#4a4a4a] text-white' : 'bg-[#2a2a2a] text-gray-400 hover:bg-[#3a3a3a]'
+          }`}
+          onClick={() => onChartRangeChange(range)}
+        >
+          {range}
+        </button>
+      ))}
+    </div>
+    <div className="bg-[#2a2a2a] p-2 sm:p-4 rounded-lg h-[250px] sm:h-[300px] mb-3 sm:mb-5">
+      <Line data={createChartData(chartData, chartRange)} options={chartOptions} />
+    </div>
+
+    {/* Forward-looking scheduled flow */}
+    <ProjectionChart positions={positions} />
+
+    {/* Positions */}
+    {view === 'table' ? (
+      <PositionsTable positions={visiblePositions} filters={filters} onSort={onSort} />
+    ) : (
+      <div className="space-y-2 sm:space-y-4">
+        {visiblePositions.map((position) => (
+          <PositionCard key={position.id} position={position} onChange={onPositionChange} />
+        ))}
+      </div>
+    )}
+  </section>
+);
@@ -0,0 +1,44 @@
+import React, { useState } from 'react';
+import { wallet } from '../api/wallet';
+import { useWallet } from '../hooks/useWallet';
+
+export const WalletButton: React.FC = () => {
+  const signer = useWallet();
+  const [error, setError] = useState<string | null>(null);
+
+  const handleConnect = async () => {
+    setError(null);
+    try {
+      await wallet.connect();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to connect wallet');
+    }
+  };
+
+  if (signer) {
+    const address = signer.publicKey.toString();
+    return (
+      <div className="flex items-center gap-2 text-sm sm:text-base">
+        <span title={`${signer.label}: ${address}`}>{address.slice(0, 4)}…{address.slice(-4)}</span>
+        <button
+          className="bg-[#3a3a3a] px-3 py-1 sm:px-4 sm:py-2 rounded hover:bg-[#4a4a4a]"
+          onClick={() => wallet.disconnect()}
+        >
+          Disconnect
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <button
+        className="bg-[#3a3a3a] px-3 py-1 sm:px-4 sm:py-2 rounded hover:bg-[#4a4a4a] text-sm sm:text-base"
+        onClick={handleConnect}
+      >
+        Connect Wallet
+      </button>
+      {error && <span className="text-red-500 text-sm">{error}</span>}
+    </div>
+  );
+};
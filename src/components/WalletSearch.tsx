@@ -0,0 +1,46 @@
+import React, { useState } from 'react';
+import { isValidAddress } from '../config/tokens';
+import { navigate, walletPath } from '../hooks/useRoute';
+
+interface WalletSearchProps {
+  initialAddress?: string;
+}
+
+export const WalletSearch: React.FC<WalletSearchProps> = ({ initialAddress = '' }) => {
+  const [address, setAddress] = useState(initialAddress);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = address.trim();
+    if (!isValidAddress(trimmed)) {
+      setError('Invalid wallet address');
+      return;
+    }
+    setError(null);
+    navigate(walletPath(trimmed));
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="bg-[#1a1a1a] p-3 sm:p-4 mb-3 sm:mb-5 rounded-lg flex flex-col sm:flex-row gap-2 sm:items-center"
+    >
+      <input
+        type="text"
+        value={address}
+        onChange={(e) => setAddress(e.target.value)}
+        placeholder="Look up a wallet address"
+        className="flex-1 bg-[#2a2a2a] px-3 py-1 sm:py-2 rounded text-sm sm:text-base"
+      />
+      <button
+        type="submit"
+        disabled={!address}
+        className="bg-[#3a3a3a] px-3 py-1 sm:px-4 sm:py-2 rounded hover:bg-[#4a4a4a] disabled:opacity-50 text-sm sm:text-base"
+      >
+        Search Wallet
+      </button>
+      {error && <span className="text-red-500 text-sm">{error}</span>}
+    </form>
+  );
+};
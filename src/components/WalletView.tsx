@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import type { Position, TokenSummary } from '../types/dca';
+import { useDataSource } from '../hooks/useDataSource';
+import { navigate } from '../hooks/useRoute';
+import { describeError } from '../api/errors';
+import { replacePosition } from '../utils/positionActions';
+import { remainingUSD } from '../utils/value';
+import { isValidAddress } from '../config/tokens';
+import { LoadingSpinner } from './LoadingSpinner';
+import { PositionCard } from './PositionCard';
+import { WalletSearch } from './WalletSearch';
+import { Amount } from './Amount';
+
+interface WalletViewProps {
+  address: string;
+}
+
+export const WalletView: React.FC<WalletViewProps> = ({ address }) => {
+  const [positions, setPositions] = useState<Position[]>([]);
+  const [summary, setSummary] = useState<Record<string, TokenSummary>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const dataSource = useDataSource();
+
+  useEffect(() => {
+    let cancelled = false;
+    // Typed or shared URLs skip WalletSearch's check
+    if (!isValidAddress(address)) {
+      setPositions([]);
+      setSummary({});
+      setError('Invalid wallet address');
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+
+    dataSource.getWalletPositions(address)
+      .then(data => {
+        if (!cancelled) {
+          setPositions(data.positions);
+          setSummary(data.summary);
+        }
+      })
+      .catch(err => {
+        console.error('Failed to fetch wallet positions:', err);
+        if (!cancelled) {
+          setError(`Failed to fetch wallet positions. ${describeError(err)}`);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [address, dataSource]);
+
+  // Both sides as what is still left to spend, so the totals compare
+  const totalUSD = (type: Position['type']) => positions
+    .filter(position => position.type === type)
+    .reduce((sum, position) => sum + (remainingUSD(position) ?? 0), 0);
+  const totalBuyUSDC = totalUSD('BUY');
+  const totalSellUSDC = totalUSD('SELL');
+  const unpriced = positions.filter(position => remainingUSD(position) === undefined).length;
+
+  return (
+    <div className="container mx-auto p-2 sm:p-5">
+      {loading && <LoadingSpinner />}
+
+      <div className="bg-[#1a1a1a] p-3 sm:p-4 mb-3 sm:mb-5 rounded-lg border-l-4 border-yellow-500 flex flex-col sm:flex-row sm:justify-between sm:items-center gap-2">
+        <div className="text-gray-300 text-sm sm:text-base break-all">
+          Wallet {address}
+        </div>
+        <button
+          className="bg-[#3a3a3a] px-3 py-1 sm:px-4 sm:py-2 rounded hover:bg-[#4a4a4a] text-sm sm:text-base"
+          onClick={() => navigate('/')}
+        >
+          ← Dashboard
+        </button>
+      </div>
+
+      <WalletSearch key={address} initialAddress={address} />
+
+      {error && <div className="text-red-500 mb-3">{error}</div>}
+
+      {/* Totals */}
+      <section className="bg-[#1a1a1a] rounded-lg p-3 sm:p-5 mb-3 sm:mb-5">
+        <h2 className="text-lg sm:text-xl font-bold mb-3 sm:mb-4">
+          {positions.length} DCA position{positions.length === 1 ? '' : 's'}
+        </h2>
+        <div className="grid grid-cols-2 gap-2 sm:gap-4 mb-3">
+          <div className="bg-[#2a2a2a] p-2 sm:p-4 rounded-lg">
+            <span className="text-gray-400">Total Buying</span>
+            <p className="text-xl font-bold">${Math.round(totalBuyUSDC).toLocaleString()} USDC</p>
+          </div>
+          <div className="bg-[#2a2a2a] p-2 sm:p-4 rounded-lg">
+            <span className="text-gray-400">Total Selling</span>
+            <p className="text-xl font-bold">${Math.round(totalSellUSDC).toLocaleString()} USDC</p>
+          </div>
+        </div>
+        {unpriced > 0 && (
+          <div className="text-gray-500 text-sm mb-3">
+            {unpriced} unpriced position{unpriced === 1 ? '' : 's'} left out of the totals
+          </div>
+        )}
+        <div className="space-y-1 text-sm">
+          {Object.entries(summary).map(([symbol, s]) => (
+            <div key={symbol} className="flex justify-between">
+              <span>{symbol}</span>
+              <span className="text-gray-400">
+                {s.buyOrders} buy / {s.sellOrders} sell · {s.buyVolume === undefined ? 'mixed' : <Amount value={s.buyVolume} amount={s.amounts?.buyVolume} />} in,{' '}
+                <Amount value={s.sellVolume} amount={s.amounts?.sellVolume} /> out
+              </span>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-2 sm:gap-4">
+        {positions.map(position => (
+          <PositionCard
+            key={position.id}
+            position={position}
+            onChange={(id, next) => setPositions(current => replacePosition(current, id, next))}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
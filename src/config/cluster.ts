@@ -0,0 +1,70 @@
+import { DCA_PROGRAM_ID_BY_CLUSTER } from '@jup-ag/dca-sdk';
+import { PublicKey } from '@solana/web3.js';
+import { env } from './env';
+
+export type Cluster = 'mainnet-beta' | 'devnet' | 'localnet';
+
+const CLUSTERS: Cluster[] = ['mainnet-beta', 'devnet', 'localnet'];
+
+// Public endpoints used when no RPC list is configured. They are heavily rate
+// limited on mainnet, so set VITE_RPC_URLS for anything serious.
+const DEFAULT_RPC: Record<Cluster, string> = {
+  'mainnet-beta': 'https://api.mainnet-beta.solana.com',
+  devnet: 'https://api.devnet.solana.com',
+  localnet: 'http://127.0.0.1:8899'
+};
+
+const parseCluster = (value?: string): Cluster => {
+  const cluster = value === 'mainnet' ? 'mainnet-beta' : value;
+  return CLUSTERS.includes(cluster as Cluster) ? cluster as Cluster : 'mainnet-beta';
+};
+
+export const parseUrlList = (value = ''): string[] =>
+  value
+    .split(',')
+    .map(url => url.trim())
+    .filter(Boolean);
+
+export interface ClusterConfig {
+  cluster: Cluster;
+  // In priority order, the first healthy one is used
+  rpcUrls: string[];
+  programId: PublicKey;
+}
+
+// VITE_RPC_URLS wins, then the single VITE_HELIUS_RPC_URL, then the cluster's public endpoint
+export const loadClusterConfig = (vars: Partial<ImportMetaEnv> = env): ClusterConfig => {
+  const cluster = parseCluster(vars.VITE_CLUSTER);
+  const configured = parseUrlList(vars.VITE_RPC_URLS);
+  const rpcUrls = configured.length > 0
+    ? configured
+    : vars.VITE_HELIUS_RPC_URL ? [vars.VITE_HELIUS_RPC_URL] : [DEFAULT_RPC[cluster]];
+
+  // A local validator has no DCA program of its own, it's expected to be cloned from mainnet
+  const programId = vars.VITE_DCA_PROGRAM_ID
+    ? new PublicKey(vars.VITE_DCA_PROGRAM_ID)
+    : DCA_PROGRAM_ID_BY_CLUSTER[cluster === 'devnet' ? 'devnet' : 'mainnet-beta'];
+
+  return { cluster, rpcUrls, programId };
+};
+
+export const clusterConfig = loadClusterConfig();
+
+// Whether the env points at something to read from: an RPC endpoint or an explicit cluster
+export const hasConfiguredRpc = (vars: Partial<ImportMetaEnv> = env): boolean =>
+  parseUrlList(vars.VITE_RPC_URLS).length > 0 || !!vars.VITE_HELIUS_RPC_URL || !!vars.VITE_CLUSTER;
+
+// Explorer link that follows the active cluster. Solscan can't see a local
+// validator, so localnet goes through Solana Explorer's custom cluster option.
+export const explorerUrl = (
+  kind: 'account' | 'dca' | 'tx',
+  address: string,
+  config: ClusterConfig = clusterConfig
+): string => {
+  if (config.cluster === 'localnet') {
+    return `https://explorer.solana.com/${kind === 'tx' ? 'tx' : 'address'}/${address}` +
+      `?cluster=custom&customUrl=${encodeURIComponent(config.rpcUrls[0])}`;
+  }
+  const path = kind === 'tx' ? `tx/${address}` : kind === 'dca' ? `account/${address}/dca` : `account/${address}`;
+  return `https://solscan.io/${path}?cluster=${config.cluster}`;
+};
@@ -0,0 +1,4 @@
+// Vite inlines import.meta.env in the browser. Under Node (the CLI) it is
+// undefined, so read the same VITE_* variables from process.env instead.
+export const env: Partial<ImportMetaEnv> =
+  import.meta.env ?? (typeof process !== 'undefined' ? process.env : {});
@@ -0,0 +1,158 @@
+import { PublicKey } from '@solana/web3.js';
+import type { TrackedToken } from '../types/dca';
+import { env } from './env';
+
+// Tokens tracked out of the box. Override with VITE_TRACKED_TOKENS,
+// e.g. "LOGOS:HJUf...pump,CHAOS:8SgN...pump"
+export const DEFAULT_TOKENS: TrackedToken[] = [
+  { symbol: 'LOGOS', mint: 'HJUfqXoYjC653f2p33i84zdCC3jc4EuVnbruSe5kpump' },
+  { symbol: 'CHAOS', mint: '8SgNwESovnbG1oNEaPVhg6CR9mTMSK7jPvcYRe3wpump' }
+];
+
+// Well-known mints that show up on the other side of DCA orders
+export const KNOWN_TOKENS: TrackedToken[] = [
+  { symbol: 'USDC', mint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v' },
+  { symbol: 'USDT', mint: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB' },
+  { symbol: 'SOL', mint: 'So11111111111111111111111111111111111111112' }
+];
+
+const QUOTE_SYMBOLS = ['USDC', 'USDT'];
+
+export const isQuoteMint = (mint: string): boolean =>
+  KNOWN_TOKENS.some(token => token.mint === mint && QUOTE_SYMBOLS.includes(token.symbol));
+
+const STORAGE_KEY = 'open-dcas:custom-tokens';
+const JUPITER_TOKEN_API = 'https://tokens.jup.ag/token';
+
+export const isValidAddress = (mint: string): boolean => {
+  try {
+    new PublicKey(mint);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Parse "SYMBOL:mint" pairs separated by commas
+export const parseTokenList = (value: string): TrackedToken[] =>
+  value
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [symbol, mint] = entry.split(':').map(part => part.trim());
+      return { symbol: symbol.toUpperCase(), mint };
+    })
+    .filter(token => token.symbol && token.mint && isValidAddress(token.mint));
+
+class TokenRegistry {
+  private baseTokens: TrackedToken[];
+  private customTokens: TrackedToken[];
+  private listeners = new Set<(tokens: TrackedToken[]) => void>();
+  // Symbols looked up on Jupiter for mints we don't otherwise know
+  private resolvedSymbols = new Map<string, string>();
+
+  constructor() {
+    const fromEnv = parseTokenList(env.VITE_TRACKED_TOKENS || '');
+    this.baseTokens = fromEnv.length > 0 ? fromEnv : DEFAULT_TOKENS;
+    this.customTokens = this.loadCustomTokens();
+  }
+
+  private loadCustomTokens(): TrackedToken[] {
+    try {
+      const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+      const tokens: TrackedToken[] = stored ? JSON.parse(stored) : [];
+      return tokens.filter(token => isValidAddress(token.mint));
+    } catch (error) {
+      console.error('Failed to load custom tokens:', error);
+      return [];
+    }
+  }
+
+  private persist() {
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.customTokens));
+    }
+    const tokens = this.getTokens();
+    this.listeners.forEach(listener => listener(tokens));
+  }
+
+  getTokens(): TrackedToken[] {
+    return [...this.baseTokens, ...this.customTokens];
+  }
+
+  getBySymbol(symbol: string): TrackedToken | undefined {
+    return this.getTokens().find(token => token.symbol === symbol);
+  }
+
+  isTracked(mint: string): boolean {
+    return this.getTokens().some(token => token.mint === mint);
+  }
+
+  // Best-effort symbol for any mint, tracked or not
+  symbolForMint(mint: string): string {
+    const known = [...this.getTokens(), ...KNOWN_TOKENS].find(token => token.mint === mint);
+    return known?.symbol ?? this.resolvedSymbols.get(mint) ?? `${mint.slice(0, 4)}…${mint.slice(-4)}`;
+  }
+
+  // Resolve symbols for unknown mints once, so symbolForMint can return them afterwards
+  async resolveSymbols(mints: string[]): Promise<void> {
+    const unknown = [...new Set(mints)].filter(mint =>
+      !this.resolvedSymbols.has(mint) && ![...this.getTokens(), ...KNOWN_TOKENS].some(token => token.mint === mint)
+    );
+    const symbols = await Promise.all(unknown.map(mint => this.resolveSymbol(mint)));
+    unknown.forEach((mint, i) => this.resolvedSymbols.set(mint, symbols[i]));
+  }
+
+  isCustom(mint: string): boolean {
+    return this.customTokens.some(token => token.mint === mint);
+  }
+
+  // Look up the symbol on Jupiter's token list, falling back to a short mint
+  async resolveSymbol(mint: string): Promise<string> {
+    try {
+      const response = await fetch(`${JUPITER_TOKEN_API}/${mint}`);
+      const data = await response.json();
+      if (data?.symbol) {
+        return String(data.symbol).toUpperCase();
+      }
+    } catch (error) {
+      console.error('Error resolving token symbol:', error);
+    }
+    return mint.slice(0, 4).toUpperCase();
+  }
+
+  async addToken(mint: string, symbol?: string): Promise<TrackedToken> {
+    const trimmed = mint.trim();
+    if (!isValidAddress(trimmed)) {
+      throw new Error('Invalid mint address');
+    }
+    if (this.getTokens().some(token => token.mint === trimmed)) {
+      throw new Error('Token is already tracked');
+    }
+
+    const resolvedSymbol = symbol?.trim().toUpperCase() || await this.resolveSymbol(trimmed);
+    if (this.getBySymbol(resolvedSymbol)) {
+      throw new Error(`Symbol ${resolvedSymbol} is already in use`);
+    }
+
+    const token = { symbol: resolvedSymbol, mint: trimmed };
+    this.customTokens = [...this.customTokens, token];
+    this.persist();
+    return token;
+  }
+
+  removeToken(mint: string) {
+    this.customTokens = this.customTokens.filter(token => token.mint !== mint);
+    this.persist();
+  }
+
+  subscribe(listener: (tokens: TrackedToken[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const tokenRegistry = new TokenRegistry();
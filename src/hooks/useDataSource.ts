@@ -0,0 +1,10 @@
+import { useEffect, useState } from 'react';
+import { dataSources, type DCADataSource } from '../api/dataSource';
+
+export const useDataSource = (): DCADataSource => {
+  const [source, setSource] = useState(dataSources.current);
+
+  useEffect(() => dataSources.subscribe(setSource), []);
+
+  return source;
+};
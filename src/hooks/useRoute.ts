@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+
+export type Route =
+  | { name: 'dashboard' }
+  | { name: 'wallet'; address: string }
+  | { name: 'position'; address: string };
+
+export const parseRoute = (pathname: string): Route => {
+  const wallet = pathname.match(/^\/wallet\/([^/]+)\/?$/);
+  if (wallet) {
+    return { name: 'wallet', address: decodeURIComponent(wallet[1]) };
+  }
+  const position = pathname.match(/^\/position\/([^/]+)\/?$/);
+  if (position) {
+    return { name: 'position', address: decodeURIComponent(position[1]) };
+  }
+  return { name: 'dashboard' };
+};
+
+export const walletPath = (address: string) => `/wallet/${encodeURIComponent(address)}`;
+export const positionPath = (address: string) => `/position/${encodeURIComponent(address)}`;
+
+// Push a new path and let every useRoute() listener re-render
+export const navigate = (path: string) => {
+  if (path !== window.location.pathname) {
+    window.history.pushState(null, '', path);
+    window.dispatchEvent(new PopStateEvent('popstate'));
+  }
+};
+
+export const useRoute = (): Route => {
+  const [route, setRoute] = useState(() => parseRoute(window.location.pathname));
+
+  useEffect(() => {
+    const handlePopState = () => setRoute(parseRoute(window.location.pathname));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  return route;
+};
@@ -0,0 +1,11 @@
+import { useEffect, useState } from 'react';
+import { wallet } from '../api/wallet';
+import type { TransactionSigner } from '../api/signer';
+
+export const useWallet = (): TransactionSigner | null => {
+  const [signer, setSigner] = useState(wallet.current);
+
+  useEffect(() => wallet.subscribe(setSigner), []);
+
+  return signer;
+};
@@ -38,10 +38,17 @@ export const mockSummaryData = {
 export const mockPositions: Position[] = [
   {
     id: "logos1",
+    owner: "7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU",
     token: "LOGOS",
     type: "BUY" as const,
     inputToken: "USDC",
     outputToken: "LOGOS",
+    inputMint: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+    outputMint: "HJUfqXoYjC653f2p33i84zdCC3jc4EuVnbruSe5kpump",
+    counterToken: "USDC",
+    counterMint: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+    inputDecimals: 6,
+    outputDecimals: 6,
     inputAmount: 10,
     totalAmount: 300,
     amountPerCycle: 10,
@@ -50,16 +57,33 @@ export const mockPositions: Position[] = [
     lastUpdate: Date.now(),
     publicKey: "HN7cABqLq46Es1jh92dQQisAq662SmxELLLsHHe4YWrH",
     priceToken: "USDC",
-    targetPrice: 0.019,
+    priceRange: { max: 0.019 },
+    priceStatus: "executing" as const,
     currentPrice: 0.018,
-    estimatedOutput: 526.32
+    estimatedOutput: 526.32,
+    progress: {
+      cyclesCompleted: 5,
+      cyclesRemaining: 25,
+      totalCycles: 30,
+      percentComplete: 16.67,
+      amountRemaining: 250,
+      nextCycleAt: Date.now() + 3600000,
+      estimatedCompletion: Date.now() + 3600000 + 24 * 86400000
+    }
   },
   {
     id: "chaos1",
+    owner: "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM",
     token: "CHAOS",
     type: "BUY" as const,
     inputToken: "USDC",
     outputToken: "CHAOS",
+    inputMint: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+    outputMint: "8SgNwESovnbG1oNEaPVhg6CR9mTMSK7jPvcYRe3wpump",
+    counterToken: "USDC",
+    counterMint: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+    inputDecimals: 6,
+    outputDecimals: 6,
     inputAmount: 50,
     totalAmount: 600,
     amountPerCycle: 50,
@@ -68,8 +92,18 @@ export const mockPositions: Position[] = [
     lastUpdate: Date.now(),
     publicKey: "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1",
     priceToken: "USDC",
-    targetPrice: 0.021,
+    priceRange: { min: 0.02, max: 0.021 },
+    priceStatus: "waiting" as const,
     currentPrice: 0.0185,
-    estimatedOutput: 2380.95
+    estimatedOutput: 2380.95,
+    progress: {
+      cyclesCompleted: 4,
+      cyclesRemaining: 8,
+      totalCycles: 12,
+      percentComplete: 33.33,
+      amountRemaining: 400,
+      nextCycleAt: Date.now() + 2 * 86400000,
+      estimatedCompletion: Date.now() + 2 * 86400000 + 7 * 604800000
+    }
   }
 ]; 
\ No newline at end of file
@@ -0,0 +1,202 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { ChartRange, DataWarning, TrackedToken } from '../types/dca';
+import { isValidAddress, tokenRegistry } from '../config/tokens';
+import { DCAError, toDCAError } from '../api/errors';
+import type { DCADataSource } from '../api/dataSource';
+import { TTLCache } from './cache';
+
+// Bump when a field is renamed or removed. `data` mirrors the Position and
+// TokenSummary types from src/types/dca.ts.
+export const API_SCHEMA_VERSION = 1;
+
+const DEFAULT_CACHE_TTL = 30 * 1000;
+const CHART_RANGES: ChartRange[] = ['1h', '24h', '7d', '30d'];
+
+export interface ApiResponse<T> {
+  schemaVersion: number;
+  generatedAt: string;
+  // Whether this came out of the cache rather than a fresh read
+  cached: boolean;
+  data: T;
+  warnings?: DataWarning[];
+}
+
+export interface ApiErrorResponse {
+  schemaVersion: number;
+  error: {
+    kind: string;
+    message: string;
+  };
+}
+
+export interface ApiServerOptions {
+  source: DCADataSource;
+  tokens?: () => TrackedToken[];
+  cacheTTL?: number;
+}
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+const STATUS_BY_KIND: Record<DCAError['kind'], number> = {
+  'rpc-unavailable': 502,
+  'rate-limited': 503,
+  'price-unavailable': 502,
+  'decode-failed': 500,
+  'empty-result': 404,
+  'bad-request': 400
+};
+
+// Kinds for errors raised by the routing itself rather than the data source
+const HTTP_ERROR_KINDS: Record<number, string> = {
+  404: 'not-found',
+  405: 'method-not-allowed'
+};
+
+const sendJSON = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Access-Control-Allow-Origin': '*'
+  });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, error: unknown) => {
+  if (error instanceof HttpError) {
+    sendJSON(res, error.status, {
+      schemaVersion: API_SCHEMA_VERSION,
+      error: { kind: HTTP_ERROR_KINDS[error.status] ?? 'bad-request', message: error.message }
+    });
+    return;
+  }
+  const typed = toDCAError(error);
+  if (typed.kind === 'rate-limited') {
+    res.setHeader('Retry-After', '30');
+  }
+  sendJSON(res, STATUS_BY_KIND[typed.kind], {
+    schemaVersion: API_SCHEMA_VERSION,
+    error: { kind: typed.kind, message: typed.message }
+  });
+};
+
+// HTTP API over any data source. Pass the mock source to run it against fixtures.
+export const createApiServer = ({
+  source,
+  tokens = () => tokenRegistry.getTokens(),
+  cacheTTL = DEFAULT_CACHE_TTL
+}: ApiServerOptions): Server => {
+  const cache = new TTLCache(cacheTTL);
+
+  const respond = async <T>(
+    res: ServerResponse,
+    key: string,
+    load: () => Promise<T>,
+    pick: (value: T) => { data: unknown; warnings?: DataWarning[] }
+  ) => {
+    const { value, cached } = cache.get(key, load);
+    const { data, warnings } = pick(await value);
+    const body: ApiResponse<unknown> = {
+      schemaVersion: API_SCHEMA_VERSION,
+      generatedAt: new Date().toISOString(),
+      cached,
+      data,
+      ...(warnings && warnings.length > 0 ? { warnings } : {})
+    };
+    sendJSON(res, 200, body);
+  };
+
+  // Every token endpoint reads from the same cached account fetch
+  const loadAccounts = () => cache.get('accounts', () => source.getDCAAccounts(tokens())).value;
+
+  const trackedToken = (symbol: string) => {
+    const token = tokens().find(t => t.symbol === symbol.toUpperCase());
+    if (!token) {
+      throw new HttpError(404, `Unknown token: ${symbol}`);
+    }
+    return token;
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    if (req.method !== 'GET') {
+      res.setHeader('Allow', 'GET');
+      throw new HttpError(405, 'Only GET is supported');
+    }
+
+    const url = new URL(req.url || '/', 'http://localhost');
+    const parts = url.pathname.split('/').filter(Boolean);
+    if (parts[0] !== 'v1') {
+      throw new HttpError(404, `Not found: ${url.pathname}`);
+    }
+    const [, resource, id, sub] = parts;
+
+    switch (resource) {
+      case 'health':
+        return sendJSON(res, 200, { schemaVersion: API_SCHEMA_VERSION, source: source.name, ok: true });
+
+      case 'tokens':
+        return respond(res, 'tokens', async () => tokens(), data => ({ data }));
+
+      case 'summaries':
+        return respond(res, 'accounts', loadAccounts, ({ summary, warnings }) => ({
+          data: id ? summary[trackedToken(id).symbol] : summary,
+          warnings
+        }));
+
+      case 'positions': {
+        const token = url.searchParams.get('token');
+        const type = url.searchParams.get('type')?.toUpperCase();
+        const symbol = token ? trackedToken(token).symbol : undefined;
+        return respond(res, 'accounts', loadAccounts, ({ positions, warnings }) => ({
+          data: positions.filter(position =>
+            (!symbol || position.token === symbol) && (!type || position.type === type)
+          ),
+          warnings
+        }));
+      }
+
+      case 'owners':
+        if (!id || sub !== 'positions') {
+          throw new HttpError(404, 'Use /v1/owners/<address>/positions');
+        }
+        if (!isValidAddress(id)) {
+          throw new HttpError(400, `Invalid address: ${id}`);
+        }
+        return respond(res, `owner:${id}`, () => source.getWalletPositions(id), data => ({
+          data: { positions: data.positions, summary: data.summary },
+          warnings: data.warnings
+        }));
+
+      case 'history': {
+        const range = (url.searchParams.get('range') || '24h') as ChartRange;
+        if (!CHART_RANGES.includes(range)) {
+          throw new HttpError(400, `Invalid range: ${range}`);
+        }
+        const token = url.searchParams.get('token');
+        const selected = token ? [trackedToken(token)] : tokens();
+        // History only grows while accounts are being fetched, so make sure one has run
+        await loadAccounts();
+        return respond(
+          res,
+          `history:${range}:${selected.map(t => t.symbol).join(',')}`,
+          () => source.getChartHistory(range, selected),
+          data => ({ data })
+        );
+      }
+
+      default:
+        throw new HttpError(404, `Not found: ${url.pathname}`);
+    }
+  };
+
+  return createServer((req, res) => {
+    handle(req, res).catch(error => {
+      if (!(error instanceof HttpError)) {
+        console.error(`${req.method} ${req.url} failed:`, error);
+      }
+      sendError(res, error);
+    });
+  });
+};
@@ -0,0 +1,33 @@
+interface Entry<T> {
+  value: Promise<T>;
+  expiresAt: number;
+}
+
+// Keeps each result for a while and shares in-flight loads, so a burst of
+// requests for the same key costs one round of RPC calls
+export class TTLCache {
+  private entries = new Map<string, Entry<unknown>>();
+
+  constructor(private ttl: number) {}
+
+  get<T>(key: string, load: () => Promise<T>, now = Date.now()): { value: Promise<T>; cached: boolean } {
+    const entry = this.entries.get(key) as Entry<T> | undefined;
+    if (entry && entry.expiresAt > now) {
+      return { value: entry.value, cached: true };
+    }
+
+    const value = load();
+    this.entries.set(key, { value, expiresAt: now + this.ttl });
+    // Don't keep failures around
+    value.catch(() => {
+      if (this.entries.get(key)?.value === value) {
+        this.entries.delete(key);
+      }
+    });
+    return { value, cached: false };
+  }
+
+  clear() {
+    this.entries.clear();
+  }
+}
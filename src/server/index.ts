@@ -0,0 +1,35 @@
+// Local HTTP API, run with `npm run server -- [--port 8787] [--source mock]`
+import { parseArgs } from 'node:util';
+import { createSource } from '../cli/source';
+import { ReplayDCAAPI } from '../api/replay';
+import { createApiServer } from './app';
+
+const DEFAULT_PORT = 8787;
+
+const { values } = parseArgs({
+  options: {
+    port: { type: 'string' },
+    host: { type: 'string', default: '127.0.0.1' },
+    source: { type: 'string', default: 'jupiter' },
+    fixture: { type: 'string' },
+    rpc: { type: 'string' },
+    cluster: { type: 'string' },
+    'cache-ttl': { type: 'string' }
+  }
+});
+
+const port = Number(values.port ?? process.env.PORT ?? DEFAULT_PORT);
+const cacheTTL = values['cache-ttl'] ? Number(values['cache-ttl']) * 1000 : undefined;
+
+const source = createSource(values);
+// A replayed fixture serves the tokens it was recorded with
+const tokens = source instanceof ReplayDCAAPI ? () => source.recordedTokens : undefined;
+const server = createApiServer({ source, tokens, cacheTTL });
+
+server.listen(port, values.host, () => {
+  console.log(`DCA API (${source.name}) listening on http://${values.host}:${port}/v1`);
+});
+
+process.once('SIGINT', () => {
+  server.close(() => process.exit(0));
+});
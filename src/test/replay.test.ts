@@ -0,0 +1,95 @@
+// Replays the recorded fixture through the live pipeline and checks the numbers, `npm test`
+import { readFileSync } from 'node:fs';
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Keypair } from '@solana/web3.js';
+import { KeypairSigner } from '../api/signer';
+import { DCAError } from '../api/errors';
+import { parseFixture, ReplayDCAAPI } from '../api/replay';
+import type { DCADataSource } from '../api/dataSource';
+
+const fixture = parseFixture(readFileSync(new URL('./fixture.json', import.meta.url), 'utf8'));
+
+// Two buys (1000 USDC with 100 spent, 10 SOL with 1 spent) and one sell of
+// 50,000 LOGOS that only fills above 0.02 USDC, recorded at LOGOS $0.018 and SOL $150
+describe('ReplayDCAAPI', () => {
+  // Progress and ETAs are relative to now, read them as of the recording
+  before(() => mock.method(Date, 'now', () => fixture.recordedAt));
+  after(() => mock.restoreAll());
+
+  it('reproduces the recorded summary', async () => {
+    const { summary, positions, warnings } = await new ReplayDCAAPI(fixture).getDCAAccounts();
+    const logos = summary.LOGOS;
+
+    assert.deepEqual(warnings, []);
+    assert.equal(positions.length, 3);
+    assert.equal(logos.buyOrders, 2);
+    assert.equal(logos.sellOrders, 1);
+    // Funded with USDC and SOL, so there's no single token amount
+    assert.equal(logos.buyVolume, undefined);
+    assert.equal(logos.buyVolumeUSD, 900 + 9 * 150);
+    assert.equal(logos.buyVolumeUSDC, 50 + 150);
+    assert.equal(logos.unpricedBuys, 0);
+    assert.equal(logos.sellVolume, 50000);
+    assert.equal(logos.sellVolumeUSDC, 900);
+    assert.equal(logos.price?.price, 0.018);
+    assert.equal(logos.blocked?.orders, 1);
+    assert.equal(Math.round(logos.blocked?.sellUSDC ?? 0), 900);
+    assert.equal(logos.leaderboard?.owners, 2);
+    assert.deepEqual(Object.keys(logos.byCounterAsset ?? {}).sort(), ['SOL', 'USDC']);
+
+    const sell = positions.find(position => position.type === 'SELL');
+    assert.equal(sell?.priceStatus, 'waiting');
+    assert.equal(sell?.counterToken, 'USDC');
+  });
+
+  it('gives the same result on a refresh', async () => {
+    const replay = new ReplayDCAAPI(fixture);
+    const first = await replay.getDCAAccounts();
+    const second = await replay.getDCAAccounts();
+    assert.deepEqual(second.summary, first.summary);
+    assert.deepEqual(second.positions, first.positions);
+  });
+
+  it('records the same accounts and prices again', async () => {
+    const replay = new ReplayDCAAPI(fixture);
+    await replay.getDCAAccounts();
+    const recorded = replay.exportFixture();
+    assert.deepEqual(
+      [...recorded.accounts].sort((a, b) => a.pubkey.localeCompare(b.pubkey)),
+      [...fixture.accounts].sort((a, b) => a.pubkey.localeCompare(b.pubkey))
+    );
+    assert.deepEqual(recorded.prices, fixture.prices);
+    assert.deepEqual(recorded.tokens, fixture.tokens);
+  });
+
+  it('looks up a wallet and a single position', async () => {
+    const replay = new ReplayDCAAPI(fixture);
+    const owner = 'AKnL4NNf3DGWZJS6cPknBuEGnVsV4A4m5tgebLHaRSZ9';
+    const wallet = await replay.getWalletPositions(owner);
+    assert.equal(wallet.positions.length, 2);
+    const position = await replay.getPosition(fixture.accounts[0].pubkey);
+    assert.equal(position.owner, owner);
+  });
+
+  it('is read-only', async () => {
+    const replay = new ReplayDCAAPI(fixture);
+    const { positions } = await replay.getDCAAccounts();
+    // Called the way the dashboard calls any source
+    const source: DCADataSource = replay;
+    const signer = new KeypairSigner(Keypair.generate());
+    const isBadRequest = (error: unknown) => error instanceof DCAError && error.kind === 'bad-request';
+
+    assert.equal(source.readOnly, true);
+    await assert.rejects(source.getPositionBalances!(positions[0]), isBadRequest);
+    await assert.rejects(source.managePosition!({ position: positions[0], action: 'close' }, signer), isBadRequest);
+    await assert.rejects(source.createOrder!({
+      inputMint: positions[0].inputMint,
+      outputMint: positions[0].outputMint,
+      totalAmount: '10',
+      amountPerCycle: '1',
+      cycleFrequency: 3600,
+      priceRange: {}
+    }, signer), isBadRequest);
+  });
+});
@@ -0,0 +1,109 @@
+// Runs the HTTP API against the recorded fixture, `npm test`
+import { readFileSync } from 'node:fs';
+import type { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Server } from 'node:http';
+import { parseFixture, ReplayDCAAPI } from '../api/replay';
+import { API_SCHEMA_VERSION, createApiServer } from '../server/app';
+
+const fixture = parseFixture(readFileSync(new URL('./fixture.json', import.meta.url), 'utf8'));
+const OWNER = 'AKnL4NNf3DGWZJS6cPknBuEGnVsV4A4m5tgebLHaRSZ9';
+
+describe('HTTP API over a replayed fixture', () => {
+  let server: Server;
+  let base: string;
+
+  before(async () => {
+    const source = new ReplayDCAAPI(fixture);
+    server = createApiServer({ source, tokens: () => source.recordedTokens });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  const get = async (path: string, init?: RequestInit) => {
+    const res = await fetch(`${base}${path}`, init);
+    return { status: res.status, headers: res.headers, body: await res.json() };
+  };
+
+  // Every successful response carries the same envelope
+  const data = async (path: string) => {
+    const { status, body } = await get(path);
+    assert.equal(status, 200, `${path}: ${JSON.stringify(body)}`);
+    assert.equal(body.schemaVersion, API_SCHEMA_VERSION);
+    assert.equal(typeof body.generatedAt, 'string');
+    assert.equal(typeof body.cached, 'boolean');
+    return body.data;
+  };
+
+  const error = async (path: string, status: number, kind: string, init?: RequestInit) => {
+    const res = await get(path, init);
+    assert.equal(res.status, status);
+    assert.equal(res.body.schemaVersion, API_SCHEMA_VERSION);
+    assert.equal(res.body.error.kind, kind);
+    assert.equal(typeof res.body.error.message, 'string');
+    return res;
+  };
+
+  it('reports health', async () => {
+    const { status, body } = await get('/health');
+    assert.equal(status, 200);
+    assert.deepEqual(body, { schemaVersion: API_SCHEMA_VERSION, source: 'replay', ok: true });
+  });
+
+  it('lists the recorded tokens', async () => {
+    assert.deepEqual(await data('/tokens'), fixture.tokens);
+  });
+
+  it('serves summaries per token', async () => {
+    const summaries = await data('/summaries');
+    assert.deepEqual(Object.keys(summaries), ['LOGOS']);
+    const logos = await data('/summaries/logos');
+    assert.equal(logos.buyOrders, 2);
+    assert.equal(logos.sellOrders, 1);
+    assert.equal(typeof logos.sellVolumeUSDC, 'number');
+    assert.equal(logos.leaderboard.owners, 2);
+    await error('/summaries/NOPE', 404, 'not-found');
+  });
+
+  it('serves positions, filtered by token and side', async () => {
+    const positions = await data('/positions');
+    assert.equal(positions.length, 3);
+    positions.forEach((position: Record<string, unknown>) => {
+      ['id', 'owner', 'token', 'type', 'inputMint', 'outputMint', 'progress'].forEach(key => assert.ok(key in position, key));
+    });
+    const sells = await data('/positions?token=logos&type=sell');
+    assert.deepEqual(sells.map((p: { type: string }) => p.type), ['SELL']);
+    await error('/positions?token=NOPE', 404, 'not-found');
+  });
+
+  it('serves one owner\'s positions', async () => {
+    const wallet = await data(`/owners/${OWNER}/positions`);
+    assert.equal(wallet.positions.length, 2);
+    assert.ok(wallet.positions.every((p: { owner: string }) => p.owner === OWNER));
+    assert.ok('LOGOS' in wallet.summary);
+    await error('/owners/not-an-address/positions', 400, 'bad-request');
+    await error(`/owners/${OWNER}`, 404, 'not-found');
+  });
+
+  it('serves chart history', async () => {
+    const history = await data('/history?range=24h');
+    assert.ok(Array.isArray(history.LOGOS));
+    await error('/history?range=2y', 400, 'bad-request');
+  });
+
+  it('answers repeated reads from the cache', async () => {
+    await data('/positions');
+    const { body } = await get('/positions');
+    assert.equal(body.cached, true);
+  });
+
+  it('rejects unknown paths and other methods', async () => {
+    await error('/nope', 404, 'not-found');
+    await error('/', 404, 'not-found');
+    const res = await error('/positions', 405, 'method-not-allowed', { method: 'POST' });
+    assert.equal(res.headers.get('allow'), 'GET');
+  });
+});
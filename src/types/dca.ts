@@ -6,6 +6,11 @@ export interface TokenInfo {
   decimals: number;
 }
 
+export interface TrackedToken {
+  symbol: string;
+  mint: string;
+}
+
 export interface DCAOrder {
   id: string;
   owner: PublicKey;
@@ -29,25 +34,176 @@ export interface DCASummary {
 
 export interface ChartDataPoint {
   timestamp: number;
-  buyVolume: number;
+  // null when the buys were funded with more than one asset
+  buyVolume: number | null;
   sellVolume: number;
+  buyOrders?: number;
+  sellOrders?: number;
+}
+
+export type ChartRange = '1h' | '24h' | '7d' | '30d';
+
+// One token's summary at a point in time, as persisted by the history store
+export interface Snapshot extends ChartDataPoint {
+  token: string;
+  buyVolumeUSDC: number;
+  // Null when the token had no price
+  sellVolumeUSDC: number | null;
+}
+
+// An on-chain integer amount together with its closest JS number
+export interface TokenAmount {
+  raw: string;
+  decimals: number;
+  exact: string;
+  value: number;
+  rounded: boolean;
+  unsafe: boolean;
+}
+
+// A USD price with where and when it came from; price is null when no source had one
+export interface PriceQuote {
+  mint: string;
+  price: number | null;
+  source: string;
+  timestamp: number;
+  stale: boolean;
+}
+
+// Scheduled DCA flow for one hour in the future
+export interface ProjectionPoint {
+  timestamp: number;
+  buyUSDC: number;
+  sellUSDC: number;
+  // Cycles of positions whose price bounds hold them back for now, not counted above
+  waitingBuyUSDC: number;
+  waitingSellUSDC: number;
 }
 
 export interface TokenSummary {
   buyOrders: number;
   sellOrders: number;
-  buyVolume: number;
+  // In the funding asset; undefined when buys are funded with more than one, see buyVolumeUSD
+  buyVolume?: number;
   sellVolume: number;
+  // Input still queued for buys, in USD across every priced funding asset
+  buyVolumeUSD?: number;
   buyVolumeUSDC: number;
-  sellVolumeUSDC: number;
+  // Buys whose funding asset has no USD price, left out of the USD figures and leaderboard
+  unpricedBuys?: number;
+  // Undefined when the token has no price, the sells aren't worth $0
+  sellVolumeUSDC?: number;
+  price?: PriceQuote;
+  // Remaining volume held back by min/max price bounds
+  blocked?: {
+    orders: number;
+    buyUSDC: number;
+    sellUSDC: number;
+  };
+  amounts?: {
+    // Missing when buys are funded with more than one asset
+    buyVolume?: TokenAmount;
+    sellVolume: TokenAmount;
+  };
+  leaderboard?: OwnerLeaderboard;
+  // Orders and remaining USD split by the counter asset, keyed by its symbol
+  byCounterAsset?: Record<string, CounterAssetBreakdown>;
+}
+
+export interface CounterAssetBreakdown {
+  mint: string;
+  buyOrders: number;
+  sellOrders: number;
+  buyUSD: number;
+  sellUSD: number;
+}
+
+// Remaining USDC one wallet has queued on one side of a token
+export interface OwnerFlow {
+  owner: string;
+  type: 'BUY' | 'SELL';
+  usdc: number;
+}
+
+export interface OwnerAggregate {
+  owner: string;
+  buyOrders: number;
+  sellOrders: number;
+  buyUSDC: number;
+  sellUSDC: number;
+  // Has open orders buying and selling the same token
+  twoSided: boolean;
+}
+
+export interface OwnerLeaderboard {
+  owners: number;
+  buyers: OwnerAggregate[];
+  sellers: OwnerAggregate[];
+  twoSided: OwnerAggregate[];
+  // Share (0-1) of the side's remaining USDC held by the largest wallets
+  concentration: {
+    buyTop5: number;
+    buyTop10: number;
+    sellTop5: number;
+    sellTop10: number;
+  };
+}
+
+// Price bounds of a position in the counter asset; undefined means unbounded
+export interface PriceRange {
+  min?: number;
+  max?: number;
+}
+
+export type PriceBoundStatus = 'executing' | 'waiting' | 'never-fill' | 'unknown';
+
+export interface PositionProgress {
+  cyclesCompleted: number;
+  cyclesRemaining: number;
+  totalCycles: number;
+  percentComplete: number;
+  amountRemaining: number;
+  nextCycleAt: number;
+  estimatedCompletion?: number;
+}
+
+// Decoded on-chain DCA account fields, integers as strings
+export interface RawDCAAccount {
+  idx: string;
+  bump: number;
+  nextCycleAt: string;
+  inDeposited: string;
+  inWithdrawn: string;
+  outWithdrawn: string;
+  inUsed: string;
+  inAmountPerCycle: string;
+  cycleFrequency: string;
+  minOutAmount: string;
+  maxOutAmount: string;
+  outReceived: string;
+  nextCycleAmountLeft: string;
+  createdAt: string;
+  keeperInBalanceBeforeBorrow: string;
+  dcaOutBalanceBeforeSwap: string;
+  // Token accounts holding the input and output, not read by older SDK types
+  inAccount?: string;
+  outAccount?: string;
 }
 
 export interface Position {
   id: string;
+  owner: string;
   token: string;
   type: 'BUY' | 'SELL';
   inputToken: string;
   outputToken: string;
+  inputMint: string;
+  outputMint: string;
+  // The asset on the other side of the tracked token (what buys are funded with, or sells paid in)
+  counterToken: string;
+  counterMint: string;
+  inputDecimals: number;
+  outputDecimals: number;
   inputAmount: number;
   totalAmount: number;
   amountPerCycle: number;
@@ -55,8 +211,205 @@ export interface Position {
   cycleFrequency: number;
   lastUpdate: number;
   publicKey: string;
-  targetPrice?: number;
+  priceRange: PriceRange;
+  priceStatus: PriceBoundStatus;
+  // Token price in priceToken (the counter asset), same unit as priceRange
   currentPrice?: number;
+  priceQuote?: PriceQuote;
   priceToken: string;
+  // USD value of one unit of the input asset
+  inputPriceUSD?: number;
   estimatedOutput?: number;
-} 
\ No newline at end of file
+  progress: PositionProgress;
+  raw?: RawDCAAccount;
+  amounts?: {
+    inputAmount: TokenAmount;
+    totalAmount: TokenAmount;
+    amountPerCycle: TokenAmount;
+    amountRemaining: TokenAmount;
+  };
+} 
+// A single executed cycle, reconstructed from the DCA account's token balance changes
+export interface Fill {
+  signature: string;
+  timestamp: number;
+  inAmount: TokenAmount;
+  outAmount: TokenAmount;
+  price: number;
+}
+
+export interface PositionFills {
+  fills: Fill[];
+  averagePrice: number;
+  totalSpent: TokenAmount;
+  totalReceived: TokenAmount;
+}
+
+// A transaction that touched a DCA account, newest first
+export interface AccountTransaction {
+  signature: string;
+  timestamp: number;
+  slot: number;
+  failed: boolean;
+}
+
+export type DCAErrorKind =
+  | 'rpc-unavailable'
+  | 'rate-limited'
+  | 'price-unavailable'
+  | 'decode-failed'
+  | 'empty-result'
+  | 'bad-request';
+
+// A problem that didn't stop the fetch, e.g. a token without a price
+export interface DataWarning {
+  kind: DCAErrorKind;
+  message: string;
+}
+
+export interface WalletData {
+  positions: Position[];
+  summary: Record<string, TokenSummary>;
+  warnings?: DataWarning[];
+}
+
+export interface DCAData extends WalletData {
+  chartData: Record<string, ChartDataPoint[]>;
+}
+
+export type FeedStatus = 'connecting' | 'live' | 'polling';
+
+// Incremental change pushed by a live data source
+export interface PositionDelta {
+  upserted: Position[];
+  removed: string[];
+  summary: Record<string, TokenSummary>;
+}
+
+export type PositionSortKey = 'size' | 'amountPerCycle' | 'cycleFrequency' | 'nextCycle' | 'owner';
+
+export interface PositionFilters {
+  type: 'ALL' | 'BUY' | 'SELL';
+  minSizeUSDC?: number;
+  maxSizeUSDC?: number;
+  status: 'ALL' | PriceBoundStatus;
+  sortBy: PositionSortKey;
+  sortDirection: 'asc' | 'desc';
+}
+
+// A new DCA order as entered in the form, amounts in whole input tokens
+export interface OrderRequest {
+  inputMint: string;
+  outputMint: string;
+  totalAmount: string;
+  amountPerCycle: string;
+  // Seconds between cycles
+  cycleFrequency: number;
+  // Price of one output token in input tokens; cycles outside it are skipped
+  priceRange: PriceRange;
+  // Unix ms, defaults to right away
+  startAt?: number;
+}
+
+export interface OrderResult {
+  signature: string;
+  dca: string;
+}
+
+export type TxStatus = 'signing' | 'sending' | 'confirming' | 'confirmed' | 'failed';
+
+export interface SchedulePreview {
+  cycles: number;
+  // Smaller than amountPerCycle when the total doesn't divide evenly
+  lastCycleAmount: number;
+  firstCycleAt: number;
+  completesAt: number;
+  // The first few cycle times
+  upcoming: number[];
+}
+
+// What the owner of a position can do with it
+export type PositionAction = 'withdraw-output' | 'withdraw-input' | 'deposit' | 'close';
+
+export interface PositionActionRequest {
+  position: Position;
+  action: PositionAction;
+  // Top-up amount in whole input tokens, only used by 'deposit'
+  amount?: string;
+}
+
+// Tokens currently sitting in the DCA account's own token accounts
+export interface PositionBalances {
+  input: TokenAmount;
+  output: TokenAmount;
+}
+
+// One historical price of the output token, in input tokens
+export interface PricePoint {
+  timestamp: number;
+  price: number;
+}
+
+export interface BacktestParams {
+  inputToken: TokenInfo;
+  outputToken: TokenInfo;
+  // Input spent per execution
+  amount: number;
+  frequency: DCAOrder['frequency'];
+  durationDays: number;
+  // Unix ms, defaults to the start of the price series
+  startAt?: number;
+  priceRange: PriceRange;
+}
+
+export interface BacktestExecution {
+  timestamp: number;
+  price: number;
+  // Outside the price range; the amount stays unspent
+  skipped: boolean;
+  spent: number;
+  acquired: number;
+  totalSpent: number;
+  totalAcquired: number;
+}
+
+export interface BacktestResult {
+  // The simulated schedule; remainingExecutions counts cycles past the end of the data
+  order: DCAOrder;
+  executions: BacktestExecution[];
+  skipped: number;
+  totalSpent: number;
+  unspent: number;
+  unitsAcquired: number;
+  averagePrice: number;
+  finalPrice: number;
+  // The same budget spent in one go at the first execution's price
+  lumpSum: {
+    price: number;
+    unitsAcquired: number;
+  };
+  // Value in input tokens at the final price, unspent input included
+  dcaValue: number;
+  lumpSumValue: number;
+}
+
+// A program account exactly as the RPC returned it, data base64
+export interface RawAccount {
+  pubkey: string;
+  data: string;
+}
+
+// Everything one getDCAAccounts read from the network, so the same state can be replayed offline
+export interface DCAFixture {
+  version: number;
+  recordedAt: number;
+  cluster: string;
+  programId: string;
+  tokens: TrackedToken[];
+  accounts: RawAccount[];
+  decimals: Record<string, number>;
+  // Symbols of untracked mints as they were resolved at the time
+  symbols: Record<string, string>;
+  // USD prices each provider answered with, by provider name
+  prices: Record<string, Record<string, number>>;
+}
@@ -0,0 +1,62 @@
+import BN from 'bn.js';
+import type { TokenAmount } from '../types/dca';
+
+const MAX_SAFE = new BN(Number.MAX_SAFE_INTEGER.toString());
+
+// Render an integer amount of base units as a decimal string without
+// going through floating point, e.g. (1234567, 6) -> "1.234567"
+export const formatUnits = (raw: BN, decimals: number): string => {
+  const negative = raw.isNeg();
+  const digits = raw.abs().toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+};
+
+export const toTokenAmount = (raw: BN, decimals: number): TokenAmount => {
+  const exact = formatUnits(raw, decimals);
+  const wholeUnits = raw.abs().div(new BN(10).pow(new BN(decimals)));
+  return {
+    raw: raw.toString(),
+    decimals,
+    exact,
+    value: Number(exact),
+    // Beyond 2^53 base units neighbouring amounts collapse to the same number
+    rounded: raw.abs().gt(MAX_SAFE),
+    // Not even the whole-token part survives the conversion
+    unsafe: wholeUnits.gt(MAX_SAFE)
+  };
+};
+
+// The reverse of formatUnits: "1.5" with 6 decimals -> 1500000. Throws on
+// anything that isn't a plain positive decimal or has too many decimals.
+export const parseUnits = (value: string, decimals: number): BN => {
+  const trimmed = value.trim();
+  if (!/^\d*\.?\d*$/.test(trimmed) || trimmed === '' || trimmed === '.') {
+    throw new Error(`Not a valid amount: ${value}`);
+  }
+  const [whole = '', fraction = ''] = trimmed.split('.');
+  if (fraction.length > decimals) {
+    throw new Error(`At most ${decimals} decimals allowed: ${value}`);
+  }
+  return new BN((whole || '0') + fraction.padEnd(decimals, '0'));
+};
+
+// Sum amounts that may use different decimals by rescaling to the widest one
+export const sumTokenAmounts = (amounts: TokenAmount[], fallbackDecimals = 6): TokenAmount => {
+  const decimals = amounts.reduce((max, amount) => Math.max(max, amount.decimals), fallbackDecimals);
+  const total = amounts.reduce(
+    (sum, amount) => sum.add(
+      new BN(amount.raw).mul(new BN(10).pow(new BN(decimals - amount.decimals)))
+    ),
+    new BN(0)
+  );
+  return toTokenAmount(total, decimals);
+};
+
+export const formatTokenAmount = (amount: TokenAmount, maximumFractionDigits = 2): string => {
+  if (amount.unsafe) {
+    return amount.exact;
+  }
+  return amount.value.toLocaleString(undefined, { maximumFractionDigits });
+};
@@ -0,0 +1,88 @@
+import { PublicKey } from '@solana/web3.js';
+import type { BacktestExecution, BacktestParams, BacktestResult, DCAOrder, PricePoint } from '../types/dca';
+
+export const FREQUENCY_SECONDS: Record<DCAOrder['frequency'], number> = {
+  hourly: 3600,
+  daily: 86400,
+  weekly: 604800
+};
+
+const isOutOfRange = (price: number, { min, max }: BacktestParams['priceRange']) =>
+  (min !== undefined && price < min) || (max !== undefined && price > max);
+
+// Replay a DCA schedule against a sorted price series. Each execution fills at
+// the latest price at or before its time, and cycles outside the price range
+// are skipped like on-chain, leaving their amount unspent.
+export const runBacktest = (series: PricePoint[], params: BacktestParams): BacktestResult => {
+  if (!series.length) {
+    throw new Error('No prices to backtest against');
+  }
+  if (!(params.amount > 0) || !(params.durationDays > 0)) {
+    throw new Error('Amount and duration must be greater than 0');
+  }
+
+  const interval = FREQUENCY_SECONDS[params.frequency] * 1000;
+  const totalExecutions = Math.max(1, Math.floor((params.durationDays * 86400 * 1000) / interval));
+  const start = Math.max(params.startAt ?? series[0].timestamp, series[0].timestamp);
+  const end = series[series.length - 1].timestamp;
+  if (start > end) {
+    throw new Error('The start date is after the last price in the series');
+  }
+
+  const executions: BacktestExecution[] = [];
+  let cursor = 0;
+  let totalSpent = 0;
+  let totalAcquired = 0;
+  for (let i = 0; i < totalExecutions; i++) {
+    const timestamp = start + i * interval;
+    // Cycles past the end of the data stay in remainingExecutions
+    if (timestamp > end) {
+      break;
+    }
+    while (cursor + 1 < series.length && series[cursor + 1].timestamp <= timestamp) {
+      cursor++;
+    }
+    const price = series[cursor].price;
+    const skipped = isOutOfRange(price, params.priceRange);
+    const spent = skipped ? 0 : params.amount;
+    const acquired = spent / price;
+    totalSpent += spent;
+    totalAcquired += acquired;
+    executions.push({ timestamp, price, skipped, spent, acquired, totalSpent, totalAcquired });
+  }
+
+  const budget = params.amount * executions.length;
+  const averagePrice = totalAcquired > 0 ? totalSpent / totalAcquired : 0;
+  const finalPrice = series[series.length - 1].price;
+  const lumpSumPrice = executions[0].price;
+  const lumpSumUnits = budget / lumpSumPrice;
+  const remainingExecutions = totalExecutions - executions.length;
+
+  const order: DCAOrder = {
+    id: `backtest-${start}`,
+    owner: PublicKey.default,
+    inputToken: params.inputToken,
+    outputToken: params.outputToken,
+    inputAmount: params.amount,
+    frequency: params.frequency,
+    nextExecutionTime: new Date(start + executions.length * interval),
+    totalExecutions,
+    remainingExecutions,
+    status: remainingExecutions > 0 ? 'active' : 'completed',
+    averagePrice
+  };
+
+  return {
+    order,
+    executions,
+    skipped: executions.filter(execution => execution.skipped).length,
+    totalSpent,
+    unspent: budget - totalSpent,
+    unitsAcquired: totalAcquired,
+    averagePrice,
+    finalPrice,
+    lumpSum: { price: lumpSumPrice, unitsAcquired: lumpSumUnits },
+    dcaValue: totalAcquired * finalPrice + (budget - totalSpent),
+    lumpSumValue: lumpSumUnits * finalPrice
+  };
+};
@@ -0,0 +1,31 @@
+const UNITS: [number, string][] = [
+  [7 * 24 * 3600, 'w'],
+  [24 * 3600, 'd'],
+  [3600, 'h'],
+  [60, 'm'],
+  [1, 's']
+];
+
+// 3600 -> "1h", 5400 -> "1h 30m"; at most two units
+export const formatDuration = (seconds: number): string => {
+  let rest = Math.max(0, Math.round(seconds));
+  if (rest === 0) {
+    return '0s';
+  }
+  const parts: string[] = [];
+  for (const [size, unit] of UNITS) {
+    if (rest >= size && parts.length < 2) {
+      parts.push(`${Math.floor(rest / size)}${unit}`);
+      rest %= size;
+    }
+  }
+  return parts.join(' ');
+};
+
+export const formatFrequency = (seconds: number): string => `every ${formatDuration(seconds)}`;
+
+// "in 20m" / "5m ago" relative to now
+export const formatRelative = (timestamp: number, now = Date.now()): string => {
+  const seconds = (timestamp - now) / 1000;
+  return seconds >= 0 ? `in ${formatDuration(seconds)}` : `${formatDuration(-seconds)} ago`;
+};
@@ -0,0 +1,131 @@
+import BN from 'bn.js';
+import { MINIMUM_ORDER_INTERVAL_IN_SECONDS, type CreateDCAParamsV2, type WithdrawParams } from '@jup-ag/dca-sdk';
+import { PublicKey, type Transaction } from '@solana/web3.js';
+import type { OrderRequest, Position, SchedulePreview } from '../types/dca';
+import { isValidAddress } from '../config/tokens';
+import { parseUnits } from './amounts';
+
+// The program refuses orders that would finish in a single cycle
+export const MIN_CYCLES = 2;
+const PREVIEW_CYCLES = 5;
+
+const WSOL_MINT = 'So11111111111111111111111111111111111111112';
+const TOKEN_PROGRAM_ID = new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
+// Instruction index of CloseAccount in the token program
+const CLOSE_ACCOUNT = 9;
+
+export type OrderErrors = Partial<Record<keyof OrderRequest | 'form', string>>;
+
+const positive = (value: string) => Number(value) > 0 && Number.isFinite(Number(value));
+
+// Field errors for the form; an empty object means the order can be submitted
+export const validateOrder = (order: OrderRequest): OrderErrors => {
+  const errors: OrderErrors = {};
+
+  if (!isValidAddress(order.inputMint)) {
+    errors.inputMint = 'Enter a valid mint address';
+  }
+  if (!isValidAddress(order.outputMint)) {
+    errors.outputMint = 'Enter a valid mint address';
+  } else if (order.inputMint === order.outputMint) {
+    errors.outputMint = 'Input and output must be different tokens';
+  }
+
+  if (!positive(order.totalAmount)) {
+    errors.totalAmount = 'Enter an amount greater than 0';
+  }
+  if (!positive(order.amountPerCycle)) {
+    errors.amountPerCycle = 'Enter an amount greater than 0';
+  } else if (positive(order.totalAmount) && Number(order.totalAmount) < Number(order.amountPerCycle) * MIN_CYCLES) {
+    errors.amountPerCycle = `The total has to cover at least ${MIN_CYCLES} cycles`;
+  }
+
+  if (!Number.isInteger(order.cycleFrequency) || order.cycleFrequency < MINIMUM_ORDER_INTERVAL_IN_SECONDS) {
+    errors.cycleFrequency = `Cycles must be at least ${MINIMUM_ORDER_INTERVAL_IN_SECONDS} seconds apart`;
+  }
+
+  const { min, max } = order.priceRange;
+  if ((min !== undefined && !(min > 0)) || (max !== undefined && !(max > 0))) {
+    errors.priceRange = 'Price bounds must be greater than 0';
+  } else if (min !== undefined && max !== undefined && min >= max) {
+    errors.priceRange = 'Minimum price must be below the maximum';
+  }
+
+  if (order.startAt !== undefined && order.startAt < Date.now() - 60 * 1000) {
+    errors.startAt = 'Start time is in the past';
+  }
+
+  return errors;
+};
+
+export const previewSchedule = (order: OrderRequest, now = Date.now()): SchedulePreview => {
+  const total = Number(order.totalAmount);
+  const perCycle = Number(order.amountPerCycle);
+  const cycles = perCycle > 0 ? Math.ceil(total / perCycle) : 0;
+  const frequency = order.cycleFrequency * 1000;
+  const firstCycleAt = order.startAt ?? now;
+
+  return {
+    cycles,
+    lastCycleAmount: cycles > 0 ? total - perCycle * (cycles - 1) : 0,
+    firstCycleAt,
+    completesAt: firstCycleAt + Math.max(cycles - 1, 0) * frequency,
+    upcoming: Array.from({ length: Math.min(cycles, PREVIEW_CYCLES) }, (_, i) => firstCycleAt + i * frequency)
+  };
+};
+
+// The SDK compares amounts with `<`, which only works on bigints, not BN
+export const toBigInt = (amount: BN): bigint => BigInt(amount.toString());
+
+// Turn a price bound (input per output) into an output bound for one cycle.
+// A higher max price means accepting less output, so max price -> min out.
+const outBound = (perCycle: number, price: number | undefined, outputDecimals: number): bigint | null =>
+  price === undefined ? null : toBigInt(parseUnits((perCycle / price).toFixed(outputDecimals), outputDecimals));
+
+export const buildCreateParams = (
+  order: OrderRequest,
+  user: PublicKey,
+  decimals: { input: number; output: number }
+): CreateDCAParamsV2 => {
+  const perCycle = Number(order.amountPerCycle);
+  return {
+    payer: user,
+    user,
+    inAmount: toBigInt(parseUnits(order.totalAmount, decimals.input)),
+    inAmountPerCycle: toBigInt(parseUnits(order.amountPerCycle, decimals.input)),
+    cycleSecondsApart: BigInt(order.cycleFrequency),
+    inputMint: new PublicKey(order.inputMint),
+    outputMint: new PublicKey(order.outputMint),
+    minOutAmountPerCycle: outBound(perCycle, order.priceRange.max, decimals.output),
+    maxOutAmountPerCycle: outBound(perCycle, order.priceRange.min, decimals.output),
+    startAt: order.startAt !== undefined ? BigInt(Math.floor(order.startAt / 1000)) : null
+  };
+};
+
+// Withdraw from one side of a position. The SDK wants both mints and both
+// amounts, and a BN zero gets through its checks for the side we leave alone.
+export const buildWithdrawParams = (
+  position: Position,
+  user: PublicKey,
+  side: 'in' | 'out',
+  amount: bigint
+): WithdrawParams => ({
+  user,
+  dca: new PublicKey(position.publicKey),
+  inputMint: new PublicKey(position.inputMint),
+  outputMint: new PublicKey(position.outputMint),
+  withdrawInAmount: side === 'in' ? amount : new BN(0),
+  withdrawOutAmount: side === 'out' ? amount : new BN(0)
+});
+
+// That zero still counts as a withdrawal when the other side is SOL, so the SDK
+// appends a close of the wallet's wSOL account, which fails if there isn't one
+export const dropOtherSideUnwrap = (tx: Transaction, position: Position, side: 'in' | 'out'): Transaction => {
+  const otherMint = side === 'in' ? position.outputMint : position.inputMint;
+  if (otherMint === WSOL_MINT) {
+    tx.instructions = tx.instructions.filter(
+      ix => !(ix.programId.equals(TOKEN_PROGRAM_ID) && ix.data[0] === CLOSE_ACCOUNT)
+    );
+  }
+  return tx;
+};
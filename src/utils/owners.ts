@@ -0,0 +1,61 @@
+import type { OwnerAggregate, OwnerFlow, OwnerLeaderboard } from '../types/dca';
+
+const LEADERBOARD_SIZE = 10;
+
+// Collapse per-order flows into one row per wallet
+export const groupByOwner = (flows: OwnerFlow[]): OwnerAggregate[] => {
+  const owners = new Map<string, OwnerAggregate>();
+  flows.forEach(flow => {
+    const aggregate = owners.get(flow.owner) || {
+      owner: flow.owner,
+      buyOrders: 0,
+      sellOrders: 0,
+      buyUSDC: 0,
+      sellUSDC: 0,
+      twoSided: false
+    };
+    if (flow.type === 'BUY') {
+      aggregate.buyOrders += 1;
+      aggregate.buyUSDC += flow.usdc;
+    } else {
+      aggregate.sellOrders += 1;
+      aggregate.sellUSDC += flow.usdc;
+    }
+    aggregate.twoSided = aggregate.buyOrders > 0 && aggregate.sellOrders > 0;
+    owners.set(flow.owner, aggregate);
+  });
+  return [...owners.values()];
+};
+
+// Share of the total held by the n largest values
+const topShare = (values: number[], n: number) => {
+  const total = values.reduce((sum, value) => sum + value, 0);
+  if (total <= 0) {
+    return 0;
+  }
+  const top = [...values].sort((a, b) => b - a).slice(0, n);
+  return top.reduce((sum, value) => sum + value, 0) / total;
+};
+
+export const buildLeaderboard = (flows: OwnerFlow[], size = LEADERBOARD_SIZE): OwnerLeaderboard => {
+  const owners = groupByOwner(flows);
+  const buyers = owners.filter(owner => owner.buyOrders > 0);
+  const sellers = owners.filter(owner => owner.sellOrders > 0);
+  const buyValues = buyers.map(owner => owner.buyUSDC);
+  const sellValues = sellers.map(owner => owner.sellUSDC);
+
+  return {
+    owners: owners.length,
+    buyers: [...buyers].sort((a, b) => b.buyUSDC - a.buyUSDC).slice(0, size),
+    sellers: [...sellers].sort((a, b) => b.sellUSDC - a.sellUSDC).slice(0, size),
+    twoSided: owners
+      .filter(owner => owner.twoSided)
+      .sort((a, b) => (b.buyUSDC + b.sellUSDC) - (a.buyUSDC + a.sellUSDC)),
+    concentration: {
+      buyTop5: topShare(buyValues, 5),
+      buyTop10: topShare(buyValues, 10),
+      sellTop5: topShare(sellValues, 5),
+      sellTop10: topShare(sellValues, 10)
+    }
+  };
+};
@@ -0,0 +1,58 @@
+import BN from 'bn.js';
+import type { Position, PositionAction } from '../types/dca';
+import { toTokenAmount } from './amounts';
+import { computeProgress } from './progress';
+
+// How each action moves the raw account counters, so the list can show the
+// result before the account is read back. null means the account is gone.
+// `amount` is in base units: the top-up for 'deposit', the withdrawn output
+// for 'withdraw-output'.
+export const applyPositionAction = (position: Position, action: PositionAction, amount?: BN): Position | null => {
+  if (action === 'close') {
+    return null;
+  }
+  if (!position.raw) {
+    return position;
+  }
+
+  const raw = { ...position.raw };
+  const inDeposited = new BN(raw.inDeposited);
+  switch (action) {
+    case 'withdraw-input':
+      // Everything not yet spent comes back, which ends the schedule
+      raw.inWithdrawn = inDeposited.sub(new BN(raw.inUsed)).toString();
+      break;
+    case 'deposit':
+      raw.inDeposited = inDeposited.add(amount ?? new BN(0)).toString();
+      break;
+    case 'withdraw-output':
+      raw.outWithdrawn = new BN(raw.outWithdrawn).add(amount ?? new BN(0)).toString();
+      break;
+  }
+
+  const counters = {
+    inDeposited: new BN(raw.inDeposited),
+    inWithdrawn: new BN(raw.inWithdrawn),
+    inUsed: new BN(raw.inUsed),
+    inAmountPerCycle: new BN(raw.inAmountPerCycle),
+    cycleFrequency: new BN(raw.cycleFrequency),
+    nextCycleAt: new BN(raw.nextCycleAt)
+  };
+  const { progress, amountRemaining } = computeProgress(counters, position.inputDecimals);
+  const totalAmount = toTokenAmount(counters.inDeposited.sub(counters.inWithdrawn), position.inputDecimals);
+
+  return {
+    ...position,
+    raw,
+    progress,
+    remainingCycles: progress.cyclesRemaining,
+    totalAmount: totalAmount.value,
+    amounts: position.amounts && { ...position.amounts, totalAmount, amountRemaining }
+  };
+};
+
+// Swap in the updated position, or drop it once closed
+export const replacePosition = (positions: Position[], id: string, next: Position | null): Position[] =>
+  next
+    ? positions.map(position => (position.id === id ? next : position))
+    : positions.filter(position => position.id !== id);
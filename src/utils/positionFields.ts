@@ -0,0 +1,85 @@
+import BN from 'bn.js';
+import type { Position, RawDCAAccount, TokenAmount } from '../types/dca';
+import { formatUnits, toTokenAmount } from './amounts';
+import { formatDuration } from './format';
+
+export interface DecodedField {
+  name: string;
+  raw: string;
+  readable: string;
+  // Addresses get an explorer link
+  address?: boolean;
+}
+
+// Metrics that need the raw counters, not just the rounded Position fields
+export interface DerivedMetrics {
+  outputReceived: TokenAmount;
+  // Received but not yet withdrawn by the owner
+  outputUnclaimed: TokenAmount;
+  // In priceToken per unit of the tracked token, like the price range
+  averagePrice?: number;
+  createdAt?: number;
+}
+
+const toDate = (seconds: string) => (seconds === '0' ? 'not set' : new Date(Number(seconds) * 1000).toLocaleString());
+
+// Every field of the on-chain account, in the IDL's order, as stored and as a person would read it
+export const decodedFields = (position: Position, raw: RawDCAAccount): DecodedField[] => {
+  const inUnits = (value: string) => `${formatUnits(new BN(value), position.inputDecimals)} ${position.inputToken}`;
+  const outUnits = (value: string) => `${formatUnits(new BN(value), position.outputDecimals)} ${position.outputToken}`;
+  // 0 means no bound was set when the order was created
+  const bound = (value: string) => (value === '0' ? 'none' : outUnits(value));
+
+  const fields: (DecodedField | null)[] = [
+    { name: 'user', raw: position.owner, readable: 'owner', address: true },
+    { name: 'inputMint', raw: position.inputMint, readable: position.inputToken, address: true },
+    { name: 'outputMint', raw: position.outputMint, readable: position.outputToken, address: true },
+    { name: 'idx', raw: raw.idx, readable: `order #${raw.idx} for this owner and pair` },
+    { name: 'nextCycleAt', raw: raw.nextCycleAt, readable: toDate(raw.nextCycleAt) },
+    { name: 'inDeposited', raw: raw.inDeposited, readable: inUnits(raw.inDeposited) },
+    { name: 'inWithdrawn', raw: raw.inWithdrawn, readable: inUnits(raw.inWithdrawn) },
+    { name: 'outWithdrawn', raw: raw.outWithdrawn, readable: outUnits(raw.outWithdrawn) },
+    { name: 'inUsed', raw: raw.inUsed, readable: inUnits(raw.inUsed) },
+    { name: 'outReceived', raw: raw.outReceived, readable: outUnits(raw.outReceived) },
+    { name: 'inAmountPerCycle', raw: raw.inAmountPerCycle, readable: inUnits(raw.inAmountPerCycle) },
+    { name: 'cycleFrequency', raw: raw.cycleFrequency, readable: formatDuration(Number(raw.cycleFrequency)) },
+    { name: 'nextCycleAmountLeft', raw: raw.nextCycleAmountLeft, readable: inUnits(raw.nextCycleAmountLeft) },
+    raw.inAccount ? { name: 'inAccount', raw: raw.inAccount, readable: `${position.inputToken} vault`, address: true } : null,
+    raw.outAccount ? { name: 'outAccount', raw: raw.outAccount, readable: `${position.outputToken} vault`, address: true } : null,
+    { name: 'minOutAmount', raw: raw.minOutAmount, readable: bound(raw.minOutAmount) },
+    { name: 'maxOutAmount', raw: raw.maxOutAmount, readable: bound(raw.maxOutAmount) },
+    {
+      name: 'keeperInBalanceBeforeBorrow',
+      raw: raw.keeperInBalanceBeforeBorrow,
+      readable: inUnits(raw.keeperInBalanceBeforeBorrow)
+    },
+    {
+      name: 'dcaOutBalanceBeforeSwap',
+      raw: raw.dcaOutBalanceBeforeSwap,
+      readable: outUnits(raw.dcaOutBalanceBeforeSwap)
+    },
+    { name: 'createdAt', raw: raw.createdAt, readable: toDate(raw.createdAt) },
+    { name: 'bump', raw: String(raw.bump), readable: 'PDA bump seed' }
+  ];
+  return fields.filter((field): field is DecodedField => field !== null);
+};
+
+export const derivedMetrics = (position: Position, raw: RawDCAAccount): DerivedMetrics => {
+  const inUsed = new BN(raw.inUsed);
+  const outReceived = new BN(raw.outReceived);
+  const outputUnclaimed = BN.max(outReceived.sub(new BN(raw.outWithdrawn)), new BN(0));
+
+  const spent = toTokenAmount(inUsed, position.inputDecimals).value;
+  const received = toTokenAmount(outReceived, position.outputDecimals).value;
+  // Buys pay input per output, sells get output per input
+  const averagePrice = spent > 0 && received > 0
+    ? (position.type === 'BUY' ? spent / received : received / spent)
+    : undefined;
+
+  return {
+    outputReceived: toTokenAmount(outReceived, position.outputDecimals),
+    outputUnclaimed: toTokenAmount(outputUnclaimed, position.outputDecimals),
+    averagePrice,
+    createdAt: raw.createdAt === '0' ? undefined : Number(raw.createdAt) * 1000
+  };
+};
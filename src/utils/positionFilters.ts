@@ -0,0 +1,47 @@
+import type { Position, PositionFilters, PositionSortKey } from '../types/dca';
+import { remainingUSD } from './value';
+
+export const DEFAULT_FILTERS: PositionFilters = {
+  type: 'ALL',
+  status: 'ALL',
+  sortBy: 'size',
+  sortDirection: 'desc'
+};
+
+// Remaining size of a position in USD, so buys and sells compare directly
+export const positionSizeUSDC = remainingUSD;
+
+const SORT_VALUES: Record<PositionSortKey, (position: Position) => number | string> = {
+  // Unpriced positions sort below every priced one
+  size: position => positionSizeUSDC(position) ?? -1,
+  amountPerCycle: position => position.amountPerCycle,
+  cycleFrequency: position => position.cycleFrequency,
+  nextCycle: position => position.progress.nextCycleAt,
+  owner: position => position.owner
+};
+
+export const filterPositions = (positions: Position[], filters: PositionFilters): Position[] =>
+  positions.filter(position => {
+    const size = positionSizeUSDC(position);
+    // A size filter can't tell where an unpriced position falls, so it drops them
+    return (filters.type === 'ALL' || position.type === filters.type)
+      && (filters.status === 'ALL' || position.priceStatus === filters.status)
+      && (filters.minSizeUSDC === undefined || (size !== undefined && size >= filters.minSizeUSDC))
+      && (filters.maxSizeUSDC === undefined || (size !== undefined && size <= filters.maxSizeUSDC));
+  });
+
+export const sortPositions = (positions: Position[], filters: PositionFilters): Position[] => {
+  const value = SORT_VALUES[filters.sortBy];
+  const direction = filters.sortDirection === 'asc' ? 1 : -1;
+  return [...positions].sort((a, b) => {
+    const left = value(a);
+    const right = value(b);
+    const order = typeof left === 'string' && typeof right === 'string'
+      ? left.localeCompare(right)
+      : Number(left) - Number(right);
+    return order * direction;
+  });
+};
+
+export const applyFilters = (positions: Position[], filters: PositionFilters): Position[] =>
+  sortPositions(filterPositions(positions, filters), filters);
@@ -0,0 +1,75 @@
+import BN from 'bn.js';
+import type { Position, PriceBoundStatus, PriceRange, TokenSummary } from '../types/dca';
+import { toTokenAmount } from './amounts';
+import { remainingUSD } from './value';
+
+// Outside the range by more than this and the position won't fill any time soon
+const NEAR_THRESHOLD = 0.25;
+
+interface BoundsInput {
+  inAmountPerCycle: BN;
+  minOutAmount?: BN;
+  maxOutAmount?: BN;
+}
+
+// minOutAmount/maxOutAmount bound the output of one cycle's swap. Turn them
+// into a price range for the tracked token, quoted in the counter asset.
+export const priceRangeFor = (
+  account: BoundsInput,
+  type: 'BUY' | 'SELL',
+  inputDecimals: number,
+  outputDecimals: number
+): PriceRange => {
+  const perCycle = toTokenAmount(account.inAmountPerCycle, inputDecimals).value;
+  const outBound = (amount?: BN) =>
+    amount && !amount.isZero() ? toTokenAmount(amount, outputDecimals).value : undefined;
+  const minOut = outBound(account.minOutAmount);
+  const maxOut = outBound(account.maxOutAmount);
+
+  if (type === 'BUY') {
+    // Paying a fixed input: more output means a lower price
+    return {
+      min: maxOut ? perCycle / maxOut : undefined,
+      max: minOut ? perCycle / minOut : undefined
+    };
+  }
+  return {
+    min: minOut ? minOut / perCycle : undefined,
+    max: maxOut ? maxOut / perCycle : undefined
+  };
+};
+
+export const classifyPriceStatus = (range: PriceRange, price?: number): PriceBoundStatus => {
+  if (range.min === undefined && range.max === undefined) {
+    return 'executing';
+  }
+  if (!price) {
+    return 'unknown';
+  }
+
+  const distance = range.min !== undefined && price < range.min
+    ? (range.min - price) / range.min
+    : range.max !== undefined && price > range.max
+      ? (price - range.max) / range.max
+      : 0;
+
+  if (distance === 0) {
+    return 'executing';
+  }
+  return distance <= NEAR_THRESHOLD ? 'waiting' : 'never-fill';
+};
+
+export const isBlocked = (position: Position) =>
+  position.priceStatus === 'waiting' || position.priceStatus === 'never-fill';
+
+// USD still to be spent by positions that their price bounds currently hold back
+export const summarizeBlocked = (positions: Position[]): NonNullable<TokenSummary['blocked']> =>
+  positions.filter(isBlocked).reduce((blocked, position) => {
+    if (position.type === 'BUY') {
+      blocked.buyUSDC += remainingUSD(position) ?? 0;
+    } else {
+      blocked.sellUSDC += remainingUSD(position) ?? 0;
+    }
+    blocked.orders += 1;
+    return blocked;
+  }, { orders: 0, buyUSDC: 0, sellUSDC: 0 });
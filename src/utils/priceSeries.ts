@@ -0,0 +1,75 @@
+import type { PricePoint } from '../types/dca';
+
+const TIME_KEYS = ['timestamp', 'time', 'date', 'datetime'];
+const PRICE_KEYS = ['price', 'close', 'value'];
+
+// Unix seconds, unix ms or anything Date can parse
+const parseTime = (value: unknown): number => {
+  if (typeof value === 'number' || (typeof value === 'string' && /^\d+(\.\d+)?$/.test(value.trim()))) {
+    const n = Number(value);
+    // Anything before 2001 in ms is really seconds
+    return n < 1e12 ? n * 1000 : n;
+  }
+  return typeof value === 'string' ? Date.parse(value) : NaN;
+};
+
+const toPoint = (time: unknown, price: unknown, row: number): PricePoint => {
+  const timestamp = parseTime(time);
+  const value = Number(price);
+  if (!Number.isFinite(timestamp)) {
+    throw new Error(`Row ${row}: can't read the time "${String(time)}"`);
+  }
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new Error(`Row ${row}: price must be a positive number, got "${String(price)}"`);
+  }
+  return { timestamp, price: value };
+};
+
+// CSV with a header row naming a time column and a price column, e.g. "date,close"
+export const parsePriceCSV = (text: string): PricePoint[] => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim());
+  if (lines.length < 2) {
+    throw new Error('CSV needs a header row and at least one price');
+  }
+  const header = lines[0].split(',').map(cell => cell.trim().replace(/^"|"$/g, '').toLowerCase());
+  const timeIndex = header.findIndex(cell => TIME_KEYS.includes(cell));
+  const priceIndex = header.findIndex(cell => PRICE_KEYS.includes(cell));
+  if (timeIndex === -1 || priceIndex === -1) {
+    throw new Error(`CSV header needs a time column (${TIME_KEYS.join('/')}) and a price column (${PRICE_KEYS.join('/')})`);
+  }
+
+  return lines.slice(1).map((line, i) => {
+    const cells = line.split(',').map(cell => cell.trim().replace(/^"|"$/g, ''));
+    return toPoint(cells[timeIndex], cells[priceIndex], i + 2);
+  });
+};
+
+// A JSON array of {timestamp, price} objects or [timestamp, price] pairs,
+// or CoinGecko's market_chart response ({ prices: [[ms, price], ...] })
+export const parsePriceJSON = (text: string): PricePoint[] => {
+  const parsed: unknown = JSON.parse(text);
+  const rows = Array.isArray(parsed) ? parsed : (parsed as { prices?: unknown })?.prices;
+  if (!Array.isArray(rows)) {
+    throw new Error('JSON must be an array of prices or an object with a "prices" array');
+  }
+
+  return rows.map((row: unknown, i) => {
+    if (Array.isArray(row)) {
+      return toPoint(row[0], row[1], i + 1);
+    }
+    const record = (row ?? {}) as Record<string, unknown>;
+    const timeKey = TIME_KEYS.find(key => key in record);
+    const priceKey = PRICE_KEYS.find(key => key in record);
+    return toPoint(timeKey && record[timeKey], priceKey && record[priceKey], i + 1);
+  });
+};
+
+// Pick the parser from the file name, falling back to sniffing the content
+export const parsePriceSeries = (text: string, fileName = ''): PricePoint[] => {
+  const json = fileName.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(text);
+  const points = json ? parsePriceJSON(text) : parsePriceCSV(text);
+  if (!points.length) {
+    throw new Error('No prices found');
+  }
+  return points.sort((a, b) => a.timestamp - b.timestamp);
+};
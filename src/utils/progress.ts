@@ -0,0 +1,52 @@
+import BN from 'bn.js';
+import type { PositionProgress, TokenAmount } from '../types/dca';
+import { toTokenAmount } from './amounts';
+
+interface ProgressInput {
+  inDeposited: BN;
+  inWithdrawn: BN;
+  inUsed: BN;
+  inAmountPerCycle: BN;
+  cycleFrequency: BN;
+  nextCycleAt: BN;
+}
+
+const ceilDiv = (a: BN, b: BN): BN => a.add(b).subn(1).div(b);
+
+// Cycle progress from the raw account counters. Everything deposited and not
+// withdrawn gets spent in inAmountPerCycle chunks, one every cycleFrequency.
+export const computeProgress = (
+  account: ProgressInput,
+  inputDecimals: number,
+  now = Date.now()
+): { progress: PositionProgress; amountRemaining: TokenAmount } => {
+  const budget = BN.max(account.inDeposited.sub(account.inWithdrawn), new BN(0));
+  const remaining = BN.max(budget.sub(account.inUsed), new BN(0));
+  const perCycle = account.inAmountPerCycle;
+
+  const cyclesCompleted = perCycle.isZero() ? 0 : account.inUsed.div(perCycle).toNumber();
+  const cyclesRemaining = perCycle.isZero() ? 0 : ceilDiv(remaining, perCycle).toNumber();
+  const frequencyMs = account.cycleFrequency.toNumber() * 1000;
+  const nextCycleAt = account.nextCycleAt.toNumber() * 1000;
+
+  // An overdue cycle runs as soon as a keeper picks it up
+  const nextRun = Math.max(nextCycleAt, now);
+  const amountRemaining = toTokenAmount(remaining, inputDecimals);
+
+  return {
+    progress: {
+      cyclesCompleted,
+      cyclesRemaining,
+      totalCycles: cyclesCompleted + cyclesRemaining,
+      percentComplete: budget.isZero()
+        ? 100
+        : Number(account.inUsed.muln(10000).div(budget).toString()) / 100,
+      amountRemaining: amountRemaining.value,
+      nextCycleAt,
+      estimatedCompletion: cyclesRemaining > 0
+        ? nextRun + (cyclesRemaining - 1) * frequencyMs
+        : undefined
+    },
+    amountRemaining
+  };
+};
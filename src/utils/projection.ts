@@ -0,0 +1,53 @@
+import type { Position, ProjectionPoint } from '../types/dca';
+import { inputPriceUSD } from './value';
+
+const HOUR = 3600 * 1000;
+
+// Replay every active position's remaining schedule into hourly buckets.
+// Each cycle spends amountPerCycle, except the last which spends what is left.
+// Positions waiting on their price bounds go into their own series, and those
+// far outside them (never-fill) are left out, they won't trade at these prices.
+export const projectFlow = (
+  positions: Position[],
+  days: number,
+  now = Date.now()
+): ProjectionPoint[] => {
+  const start = Math.floor(now / HOUR) * HOUR;
+  const end = start + days * 24 * HOUR;
+  const buckets: ProjectionPoint[] = Array.from({ length: days * 24 }, (_, i) => ({
+    timestamp: start + i * HOUR,
+    buyUSDC: 0,
+    sellUSDC: 0,
+    waitingBuyUSDC: 0,
+    waitingSellUSDC: 0
+  }));
+
+  positions.forEach(position => {
+    const { cyclesRemaining, amountRemaining, nextCycleAt } = position.progress;
+    const frequency = position.cycleFrequency * 1000;
+    const value = inputPriceUSD(position);
+    // Unpriced positions can't be projected in USD
+    if (cyclesRemaining <= 0 || frequency <= 0 || value === undefined || position.priceStatus === 'never-fill') {
+      return;
+    }
+    const waiting = position.priceStatus === 'waiting';
+
+    let left = amountRemaining;
+    // Overdue cycles are expected to run right away
+    let at = Math.max(nextCycleAt, now);
+
+    for (let cycle = 0; cycle < cyclesRemaining && at < end && left > 0; cycle++) {
+      const amount = Math.min(position.amountPerCycle, left);
+      const bucket = buckets[Math.floor((at - start) / HOUR)];
+      if (position.type === 'BUY') {
+        bucket[waiting ? 'waitingBuyUSDC' : 'buyUSDC'] += amount * value;
+      } else {
+        bucket[waiting ? 'waitingSellUSDC' : 'sellUSDC'] += amount * value;
+      }
+      left -= amount;
+      at += frequency;
+    }
+  });
+
+  return buckets;
+};
@@ -0,0 +1,37 @@
+import type { Position, TokenSummary } from '../types/dca';
+import { isQuoteMint } from '../config/tokens';
+
+// USD value of one unit of the position's input, undefined when it isn't priced.
+// Only stablecoins fall back to $1, like the summary does for missing quotes.
+export const inputPriceUSD = (position: Position): number | undefined => {
+  if (position.inputPriceUSD !== undefined) {
+    return position.inputPriceUSD;
+  }
+  if (isQuoteMint(position.inputMint)) {
+    return 1;
+  }
+  // A sell's current price is in its counter asset, which is only USD for stablecoins
+  return position.type === 'SELL' && isQuoteMint(position.counterMint) ? position.currentPrice : undefined;
+};
+
+// What is left to spend, in USD
+export const remainingUSD = (position: Position): number | undefined => {
+  const price = inputPriceUSD(position);
+  return price === undefined ? undefined : position.progress.amountRemaining * price;
+};
+
+// Orders and remaining USD grouped by the asset each position trades against
+export const summarizeByCounterAsset = (positions: Position[]): NonNullable<TokenSummary['byCounterAsset']> =>
+  positions.reduce((breakdown, position) => {
+    const entry = breakdown[position.counterToken] ||
+      { mint: position.counterMint, buyOrders: 0, sellOrders: 0, buyUSD: 0, sellUSD: 0 };
+    if (position.type === 'BUY') {
+      entry.buyOrders += 1;
+      entry.buyUSD += remainingUSD(position) ?? 0;
+    } else {
+      entry.sellOrders += 1;
+      entry.sellUSD += remainingUSD(position) ?? 0;
+    }
+    breakdown[position.counterToken] = entry;
+    return breakdown;
+  }, {} as NonNullable<TokenSummary['byCounterAsset']>);
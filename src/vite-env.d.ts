@@ -1 +1,14 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_HELIUS_RPC_URL: string;
+  readonly VITE_RPC_URLS?: string;
+  readonly VITE_CLUSTER?: string;
+  readonly VITE_DCA_PROGRAM_ID?: string;
+  readonly VITE_TRACKED_TOKENS?: string;
+  readonly VITE_DATA_SOURCE?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}